@@ -0,0 +1,19 @@
+import { parentPort } from 'worker_threads';
+import { analyzeFile } from './metrics/index.js';
+import type { AnalyzeOptions } from './types/metrics.js';
+
+export interface AnalysisRequest {
+  id: number;
+  code: string;
+  filePath: string;
+  options: AnalyzeOptions;
+}
+
+// Worker thread entry point for AnalysisWorkerPool: analyzes one file per message
+parentPort?.on('message', ({ id, code, filePath, options }: AnalysisRequest) => {
+  try {
+    parentPort?.postMessage({ id, analysis: analyzeFile(code, filePath, options) });
+  } catch (error) {
+    parentPort?.postMessage({ id, error: error instanceof Error ? error.message : String(error) });
+  }
+});
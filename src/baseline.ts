@@ -0,0 +1,278 @@
+import {
+  ANALYSIS_SCHEMA_VERSION,
+  BaselineComparisonOutputSchema,
+  type Baseline,
+  type BaselineChange,
+  type BaselineComparisonOutput,
+  type BaselineEntry,
+  type BaselineMetrics,
+  type BaselineTolerance,
+  type BaselineUnparsedFile,
+  type DirectoryAnalysisOutput
+} from './schemas.js';
+import type { CodeMetrics, MaintainabilityVariant } from './types/metrics.js';
+import { formatParseDiagnostics } from './utils.js';
+
+export const DEFAULT_BASELINE_FILENAME = '.qualytics-baseline.json';
+
+// Floating point noise below this is treated as no change
+const EPSILON = 1e-9;
+
+const STATUS_ORDER: Record<BaselineChange['status'], number> = {
+  regressed: 0,
+  new: 1,
+  removed: 2,
+  changed: 3,
+  improved: 4
+};
+
+function toBaselineMetrics(metrics: CodeMetrics): BaselineMetrics {
+  return {
+    cyclomaticComplexity: metrics.cyclomaticComplexity,
+    cognitiveComplexity: metrics.cognitiveComplexity,
+    maintainabilityIndex: metrics.maintainabilityIndex,
+    linesOfCode: metrics.linesOfCode
+  };
+}
+
+/**
+ * Pairs each function with a key that is unique within its file: the function
+ * name qualified by its enclosing namespaces and classes (e.g. Parser.parse),
+ * with repeated names in the same container such as several <arrow> functions
+ * disambiguated by a #n suffix in source order. Functions added to or removed
+ * from one class therefore leave the keys of other classes unchanged.
+ */
+export function keyFunctionsByName<T extends { name: string; containerPath: string[] }>(functions: T[]): Array<[string, T]> {
+  const seen = new Map<string, number>();
+  return functions.map(fn => {
+    const name = [...fn.containerPath, fn.name].join('.');
+    const occurrence = (seen.get(name) ?? 0) + 1;
+    seen.set(name, occurrence);
+    return [occurrence > 1 ? `${name}#${occurrence}` : name, fn];
+  });
+}
+
+/**
+ * Flattens a directory analysis into entries keyed by path (files) and
+ * path::name (functions), see keyFunctionsByName. Every entry records the
+ * parse status of its file.
+ */
+export function toBaselineEntries(analysis: DirectoryAnalysisOutput): Record<string, BaselineEntry> {
+  const entries: Record<string, BaselineEntry> = {};
+
+  for (const file of analysis.files) {
+    entries[file.path] = {
+      path: file.path,
+      scope: 'file',
+      name: '-',
+      parseStatus: file.parseStatus,
+      metrics: toBaselineMetrics(file.fileMetrics)
+    };
+
+    for (const [name, fn] of keyFunctionsByName(file.functions)) {
+      entries[`${file.path}::${name}`] = {
+        path: file.path,
+        scope: 'function',
+        name: fn.name,
+        startLine: fn.startLine,
+        endLine: fn.endLine,
+        parseStatus: file.parseStatus,
+        metrics: toBaselineMetrics(fn.metrics)
+      };
+    }
+  }
+
+  return entries;
+}
+
+export function createBaseline(analysis: DirectoryAnalysisOutput, maintainabilityVariant: MaintainabilityVariant): Baseline {
+  return {
+    schemaVersion: ANALYSIS_SCHEMA_VERSION,
+    createdAt: new Date().toISOString(),
+    directory: analysis.directory,
+    maintainabilityVariant,
+    entries: toBaselineEntries(analysis)
+  };
+}
+
+function classifyDelta(delta: BaselineMetrics, tolerance: BaselineTolerance): BaselineChange['status'] | undefined {
+  if (delta.cyclomaticComplexity > tolerance.cyclomatic_complexity + EPSILON ||
+      delta.maintainabilityIndex < -tolerance.maintainability_index - EPSILON ||
+      delta.linesOfCode > tolerance.lloc + EPSILON) {
+    return 'regressed';
+  }
+
+  const worse = delta.cyclomaticComplexity > EPSILON ||
+                delta.cognitiveComplexity > EPSILON ||
+                delta.maintainabilityIndex < -EPSILON ||
+                delta.linesOfCode > EPSILON;
+  const better = delta.cyclomaticComplexity < -EPSILON ||
+                 delta.cognitiveComplexity < -EPSILON ||
+                 delta.maintainabilityIndex > EPSILON ||
+                 delta.linesOfCode < -EPSILON;
+
+  if (better && !worse) {
+    return 'improved';
+  }
+  return worse || better ? 'changed' : undefined;
+}
+
+/**
+ * Files that failed to parse in the baseline or in the analysis. Their
+ * metrics are zero on the failed side, so they are reported instead of compared.
+ */
+function findUnparsedFiles(baseline: Baseline, analysis: DirectoryAnalysisOutput): BaselineUnparsedFile[] {
+  const baselineFiles = new Map(Object.values(baseline.entries)
+    .filter(entry => entry.scope === 'file')
+    .map(entry => [entry.path, entry.parseStatus ?? 'ok'] as const));
+  const currentFiles = new Map(analysis.files.map(file => [file.path, file]));
+
+  return [...new Set([...baselineFiles.keys(), ...currentFiles.keys()])]
+    .filter(path => baselineFiles.get(path) === 'failed' || currentFiles.get(path)?.parseStatus === 'failed')
+    .sort((a, b) => a.localeCompare(b))
+    .map(path => ({
+      path,
+      baselineParseStatus: baselineFiles.get(path),
+      currentParseStatus: currentFiles.get(path)?.parseStatus,
+      diagnostics: currentFiles.get(path)?.diagnostics ?? []
+    }));
+}
+
+/**
+ * Compares the current directory analysis against a saved baseline. The
+ * analysis must use the maintainability variant recorded in the baseline.
+ * Files that failed to parse on either side are listed in unparsedFiles and
+ * left out of the changes.
+ */
+export function compareWithBaseline(
+  baseline: Baseline,
+  baselinePath: string,
+  analysis: DirectoryAnalysisOutput,
+  tolerance: BaselineTolerance
+): BaselineComparisonOutput {
+  const current = toBaselineEntries(analysis);
+  const unparsedFiles = findUnparsedFiles(baseline, analysis);
+  const unparsedPaths = new Set(unparsedFiles.map(file => file.path));
+  const changes: BaselineChange[] = [];
+
+  for (const [key, entry] of Object.entries(current)) {
+    if (unparsedPaths.has(entry.path)) {
+      continue;
+    }
+    const previous = baseline.entries[key];
+    const location = {
+      key,
+      path: entry.path,
+      scope: entry.scope,
+      name: entry.name,
+      startLine: entry.startLine,
+      endLine: entry.endLine
+    };
+
+    if (!previous) {
+      changes.push({ ...location, status: 'new', current: entry.metrics });
+      continue;
+    }
+
+    const delta: BaselineMetrics = {
+      cyclomaticComplexity: entry.metrics.cyclomaticComplexity - previous.metrics.cyclomaticComplexity,
+      cognitiveComplexity: entry.metrics.cognitiveComplexity - previous.metrics.cognitiveComplexity,
+      maintainabilityIndex: entry.metrics.maintainabilityIndex - previous.metrics.maintainabilityIndex,
+      linesOfCode: entry.metrics.linesOfCode - previous.metrics.linesOfCode
+    };
+    const status = classifyDelta(delta, tolerance);
+    if (status) {
+      changes.push({ ...location, status, baseline: previous.metrics, current: entry.metrics, delta });
+    }
+  }
+
+  for (const [key, entry] of Object.entries(baseline.entries)) {
+    if (!current[key] && !unparsedPaths.has(entry.path)) {
+      changes.push({
+        key,
+        path: entry.path,
+        scope: entry.scope,
+        name: entry.name,
+        status: 'removed',
+        startLine: entry.startLine,
+        endLine: entry.endLine,
+        baseline: entry.metrics
+      });
+    }
+  }
+
+  changes.sort((a, b) => STATUS_ORDER[a.status] - STATUS_ORDER[b.status] || a.key.localeCompare(b.key));
+
+  const countFunctions = (status: BaselineChange['status']) =>
+    changes.filter(c => c.scope === 'function' && c.status === status).length;
+
+  return BaselineComparisonOutputSchema.parse({
+    schemaVersion: ANALYSIS_SCHEMA_VERSION,
+    directory: analysis.directory,
+    baselinePath,
+    baselineCreatedAt: baseline.createdAt,
+    maintainabilityVariant: baseline.maintainabilityVariant,
+    regressionCount: changes.filter(c => c.status === 'regressed').length,
+    newFunctions: countFunctions('new'),
+    removedFunctions: countFunctions('removed'),
+    changes,
+    unparsedFiles
+  });
+}
+
+/**
+ * Formats a baseline comparison as a summary followed by a markdown table of changes
+ */
+export function formatBaselineComparison(result: BaselineComparisonOutput) {
+  const lines = [
+    `Baseline comparison against ${result.baselinePath} (saved ${result.baselineCreatedAt}, maintainability variant ${result.maintainabilityVariant})`,
+    `- Regressions: ${result.regressionCount}`,
+    `- New functions: ${result.newFunctions}`,
+    `- Removed functions: ${result.removedFunctions}`
+  ];
+
+  if (result.unparsedFiles.length > 0) {
+    lines.push(
+      '',
+      `Not compared, failing to parse in the baseline or now (${result.unparsedFiles.length} files):`,
+      ...result.unparsedFiles.map(file =>
+        `- ${file.path} (baseline: ${file.baselineParseStatus ?? 'absent'}, current: ${file.currentParseStatus ?? 'absent'})`),
+      ...result.unparsedFiles
+        .filter(file => file.diagnostics.length > 0)
+        .map(file => formatParseDiagnostics(file.path, file.diagnostics))
+    );
+  }
+
+  if (result.changes.length === 0) {
+    lines.push('', 'No changes since the baseline.');
+    return lines.join('\n');
+  }
+
+  const formatDelta = (value: number | undefined, digits = 0) => {
+    if (value === undefined) return '-';
+    const text = value.toFixed(digits);
+    return value > 0 ? `+${text}` : text;
+  };
+  const formatValue = (metrics: BaselineMetrics | undefined, pick: (m: BaselineMetrics) => number, digits = 0) =>
+    metrics ? pick(metrics).toFixed(digits) : '-';
+
+  lines.push(
+    '',
+    '| Status | File | Scope | Name | Lines | Complexity | Δ Complexity | Cognitive | Δ Cognitive | Maintainability | Δ Maintainability | LOC | Δ LOC |',
+    '|--------|------|-------|------|-------|------------|--------------|-----------|-------------|-----------------|-------------------|-----|-------|'
+  );
+
+  for (const change of result.changes) {
+    const metrics = change.current ?? change.baseline;
+    const range = change.startLine !== undefined ? `${change.startLine}-${change.endLine}` : '-';
+    lines.push(
+      `| ${change.status} | ${change.path} | ${change.scope} | ${change.name} | ${range} | ` +
+      `${formatValue(metrics, m => m.cyclomaticComplexity)} | ${formatDelta(change.delta?.cyclomaticComplexity)} | ` +
+      `${formatValue(metrics, m => m.cognitiveComplexity)} | ${formatDelta(change.delta?.cognitiveComplexity)} | ` +
+      `${formatValue(metrics, m => m.maintainabilityIndex, 2)} | ${formatDelta(change.delta?.maintainabilityIndex, 2)} | ` +
+      `${formatValue(metrics, m => m.linesOfCode)} | ${formatDelta(change.delta?.linesOfCode)} |`
+    );
+  }
+
+  return lines.join('\n');
+}
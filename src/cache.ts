@@ -0,0 +1,117 @@
+import { promises as fs, readFileSync } from 'fs';
+import { createHash } from 'crypto';
+import path from 'path';
+import { ANALYZER_REVISION, analyzeFile } from './metrics/index.js';
+import type { AnalyzeOptions, FileAnalysis } from './types/metrics.js';
+import { ANALYSIS_SCHEMA_VERSION, FileAnalysisOutputSchema, type CacheStats } from './schemas.js';
+
+export const CACHE_DIRECTORY_NAME = '.qualytics-cache';
+
+const PACKAGE_VERSION: string = JSON.parse(
+  readFileSync(new URL('../package.json', import.meta.url), 'utf-8')
+).version;
+
+// Entries written by another release or metric revision may have been computed differently
+const ANALYZER_VERSION = `${PACKAGE_VERSION}/${ANALYSIS_SCHEMA_VERSION}/${ANALYZER_REVISION}`;
+
+// Entries hold a FileAnalysis: the structured file output without its envelope
+const CacheEntrySchema = FileAnalysisOutputSchema.omit({ schemaVersion: true, file: true }).strict();
+
+export type Analyzer = (code: string, filePath: string, options: AnalyzeOptions) => FileAnalysis | Promise<FileAnalysis>;
+
+export interface AnalysisCacheOptions {
+  enabled: boolean;
+  clear: boolean;
+}
+
+/**
+ * On-disk cache of file analyses under `<directory>/.qualytics-cache/`.
+ * Entries are keyed by a hash of the analyzer version, the analyze options,
+ * the file extension (which selects the parser dialect) and the file contents,
+ * so edited files and upgrades miss the cache without any invalidation step.
+ * The cache is best effort: unreadable entries and entries that do not match
+ * the analysis schema (e.g. truncated or edited by hand) are treated as misses,
+ * and failed writes are counted in the stats.
+ */
+export class AnalysisCache {
+  private hits = 0;
+  private misses = 0;
+  private writeFailures = 0;
+
+  private constructor(
+    private readonly cacheDirectory: string,
+    private readonly enabled: boolean,
+    private readonly cleared: boolean,
+    private readonly options: AnalyzeOptions
+  ) {}
+
+  /**
+   * Opens the cache for an analyzed directory, deleting existing entries when clear is set
+   */
+  static async open(directory: string, options: AnalyzeOptions, cacheOptions: AnalysisCacheOptions): Promise<AnalysisCache> {
+    const cacheDirectory = path.join(directory, CACHE_DIRECTORY_NAME);
+    if (cacheOptions.clear) {
+      await fs.rm(cacheDirectory, { recursive: true, force: true });
+    }
+    return new AnalysisCache(cacheDirectory, cacheOptions.enabled, cacheOptions.clear, options);
+  }
+
+  private entryPath(code: string, filePath: string) {
+    const hash = createHash('sha256')
+      .update(ANALYZER_VERSION)
+      .update('\0')
+      .update(JSON.stringify(this.options))
+      .update('\0')
+      .update(path.extname(filePath).toLowerCase())
+      .update('\0')
+      .update(code)
+      .digest('hex');
+    return path.join(this.cacheDirectory, hash.slice(0, 2), `${hash}.json`);
+  }
+
+  /**
+   * Returns the cached analysis of the contents, running the analyzer and
+   * storing its result on a miss
+   */
+  async analyze(code: string, filePath: string, analyzer: Analyzer = analyzeFile): Promise<FileAnalysis> {
+    if (!this.enabled) {
+      return analyzer(code, filePath, this.options);
+    }
+
+    const entryPath = this.entryPath(code, filePath);
+    try {
+      const entry: unknown = JSON.parse(await fs.readFile(entryPath, 'utf-8'));
+      if (CacheEntrySchema.safeParse(entry).success) {
+        this.hits++;
+        return entry as FileAnalysis;
+      }
+    } catch {
+      // Missing or unreadable entry: analyze below
+    }
+
+    this.misses++;
+    const analysis = await analyzer(code, filePath, this.options);
+    try {
+      await fs.mkdir(path.dirname(entryPath), { recursive: true });
+      // Written under a temporary name so concurrent runs never read a partial entry
+      const temporaryPath = `${entryPath}.${process.pid}.tmp`;
+      await fs.writeFile(temporaryPath, JSON.stringify(analysis));
+      await fs.rename(temporaryPath, entryPath);
+    } catch {
+      // Read-only or full file system: the analysis is still returned
+      this.writeFailures++;
+    }
+    return analysis;
+  }
+
+  stats(): CacheStats {
+    return {
+      enabled: this.enabled,
+      directory: this.cacheDirectory,
+      cleared: this.cleared,
+      hits: this.hits,
+      misses: this.misses,
+      writeFailures: this.writeFailures
+    };
+  }
+}
@@ -0,0 +1,224 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { loadProjectConfig } from './config.js';
+import { handleAnalyzeFile, handleAnalyzeDirectory, handleQualityGate } from './handlers.js';
+
+const USAGE = `Usage:
+  mcp-qualytics                      Start the MCP server on stdio
+  mcp-qualytics --transport http     Start the MCP server on HTTP (Streamable HTTP on /mcp, legacy SSE on /sse)
+                [--port <n>]         HTTP port (default 3000)
+                [--host <address>]   HTTP bind address (default 127.0.0.1)
+  mcp-qualytics analyze <path>       Analyze a TypeScript file or directory
+  mcp-qualytics gate <path>          Evaluate a directory against quality thresholds
+
+Options:
+  --format <table|json|text>         Output format (text is available for single files only)
+  --ignore <pattern>                 Glob pattern to ignore, may be repeated (directories only)
+  --no-functions                     Omit function-level rows (analyze on a directory only)
+  --fail-on-parse-error              Fail when a file cannot be parsed (gate: report it as a violation)
+  --partial                          Skip lines the parser rejects and analyze the rest
+  --cache                            Cache file analyses in .qualytics-cache/ inside <path> (directories only)
+  --clear-cache                      Delete .qualytics-cache/ before analyzing (directories only)
+  --concurrency <n>                  Worker threads analyzing files in parallel (default: CPU cores)
+  --mi-variant <variant>             Maintainability index formula: vs (default), sei, sei-comments or raw
+
+Gate thresholds:
+  --max-complexity <n>               Max cyclomatic complexity per function (default 10)
+  --min-maintainability <n>          Min maintainability index per file, on the --mi-variant scale (default 20)
+  --max-lloc <n>                     Max logical lines of code per function (default 60)
+  --max-inheritance-depth <n>        Max depth of inheritance per file (default 5)
+
+Defaults for these options are read from the project configuration (.qualyticsrc.json,
+qualytics.config.ts or a "qualytics" key in package.json) found from <path> upward.
+
+Exit codes: 0 success, 1 thresholds breached, 2 usage or analysis error`;
+
+export const EXIT_SUCCESS = 0;
+export const EXIT_THRESHOLDS_BREACHED = 1;
+export const EXIT_ERROR = 2;
+
+interface CliOptions {
+  command: string;
+  target: string;
+  format?: string;
+  ignorePatterns: string[];
+  includeFunctions: boolean;
+  failOnParseError: boolean;
+  partial: boolean;
+  cache: boolean;
+  clearCache: boolean;
+  concurrency?: number;
+  maintainabilityVariant?: string;
+  thresholds: Record<string, number>;
+}
+
+const THRESHOLD_FLAGS: Record<string, string> = {
+  '--max-complexity': 'max_cyclomatic_complexity',
+  '--min-maintainability': 'min_maintainability_index',
+  '--max-lloc': 'max_lloc',
+  '--max-inheritance-depth': 'max_inheritance_depth'
+};
+
+class CliUsageError extends Error {}
+
+function parseArgs(argv: string[]): CliOptions {
+  const [command, ...rest] = argv;
+  if (command !== 'analyze' && command !== 'gate') {
+    throw new CliUsageError(`Unknown command: ${command}`);
+  }
+
+  const options: CliOptions = {
+    command,
+    target: '',
+    ignorePatterns: [],
+    includeFunctions: true,
+    failOnParseError: false,
+    partial: false,
+    cache: false,
+    clearCache: false,
+    thresholds: {}
+  };
+
+  const takeValue = (flag: string, index: number) => {
+    const value = rest[index + 1];
+    if (value === undefined || value.startsWith('--')) {
+      throw new CliUsageError(`Missing value for ${flag}`);
+    }
+    return value;
+  };
+
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    if (arg === '--format') {
+      options.format = takeValue(arg, i++);
+    } else if (arg === '--ignore') {
+      options.ignorePatterns.push(takeValue(arg, i++));
+    } else if (arg === '--no-functions') {
+      options.includeFunctions = false;
+    } else if (arg === '--fail-on-parse-error') {
+      options.failOnParseError = true;
+    } else if (arg === '--partial') {
+      options.partial = true;
+    } else if (arg === '--cache') {
+      options.cache = true;
+    } else if (arg === '--clear-cache') {
+      options.clearCache = true;
+    } else if (arg === '--concurrency') {
+      const value = Number(takeValue(arg, i++));
+      if (!Number.isInteger(value) || value < 1) {
+        throw new CliUsageError(`Invalid number for ${arg}`);
+      }
+      options.concurrency = value;
+    } else if (arg === '--mi-variant') {
+      options.maintainabilityVariant = takeValue(arg, i++);
+    } else if (arg in THRESHOLD_FLAGS) {
+      const value = Number(takeValue(arg, i++));
+      if (Number.isNaN(value)) {
+        throw new CliUsageError(`Invalid number for ${arg}`);
+      }
+      options.thresholds[THRESHOLD_FLAGS[arg]] = value;
+    } else if (arg.startsWith('--')) {
+      throw new CliUsageError(`Unknown option: ${arg}`);
+    } else if (!options.target) {
+      options.target = arg;
+    } else {
+      throw new CliUsageError(`Unexpected argument: ${arg}`);
+    }
+  }
+
+  if (!options.target) {
+    throw new CliUsageError(`Missing <path> for ${command}`);
+  }
+
+  return options;
+}
+
+async function runAnalyze(options: CliOptions) {
+  const stats = await fs.stat(options.target);
+  if (stats.isDirectory()) {
+    return handleAnalyzeDirectory({
+      directory: options.target,
+      include_functions: options.includeFunctions,
+      ignore_patterns: options.ignorePatterns,
+      fail_on_parse_error: options.failOnParseError,
+      partial_analysis: options.partial,
+      cache: options.cache,
+      clear_cache: options.clearCache,
+      concurrency: options.concurrency,
+      maintainability_variant: options.maintainabilityVariant,
+      format: options.format
+    });
+  }
+
+  // The tool defaults single files to text, the CLI to a table unless configured otherwise
+  const config = await loadProjectConfig(path.dirname(options.target));
+  return handleAnalyzeFile({
+    filepath: options.target,
+    fail_on_parse_error: options.failOnParseError,
+    partial_analysis: options.partial,
+    maintainability_variant: options.maintainabilityVariant,
+    format: options.format ?? config?.config.format ?? 'table'
+  });
+}
+
+async function runGate(options: CliOptions) {
+  return handleQualityGate({
+    directory: options.target,
+    ignore_patterns: options.ignorePatterns,
+    fail_on_parse_error: options.failOnParseError,
+    partial_analysis: options.partial,
+    cache: options.cache,
+    clear_cache: options.clearCache,
+    concurrency: options.concurrency,
+    maintainability_variant: options.maintainabilityVariant,
+    thresholds: options.thresholds,
+    format: options.format
+  });
+}
+
+/**
+ * Runs a CLI command using the same handlers as the MCP tools.
+ * Returns the process exit code.
+ */
+export async function runCli(argv: string[]): Promise<number> {
+  if (argv[0] === '--help' || argv[0] === '-h' || argv[0] === 'help') {
+    console.log(USAGE);
+    return EXIT_SUCCESS;
+  }
+
+  let options: CliOptions;
+  try {
+    options = parseArgs(argv);
+  } catch (error) {
+    if (error instanceof CliUsageError) {
+      console.error(`${error.message}\n\n${USAGE}`);
+      return EXIT_ERROR;
+    }
+    throw error;
+  }
+
+  try {
+    const result = options.command === 'gate'
+      ? await runGate(options)
+      : await runAnalyze(options);
+
+    const text = result.content
+      .map(item => ('text' in item ? item.text : ''))
+      .join('\n');
+
+    if (result.isError) {
+      console.error(text);
+      return EXIT_ERROR;
+    }
+
+    console.log(text);
+
+    if (options.command === 'gate' && result.structuredContent && 'passed' in result.structuredContent) {
+      return result.structuredContent.passed ? EXIT_SUCCESS : EXIT_THRESHOLDS_BREACHED;
+    }
+    return EXIT_SUCCESS;
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    return EXIT_ERROR;
+  }
+}
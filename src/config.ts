@@ -0,0 +1,346 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import ignore from 'ignore';
+import { z } from 'zod';
+import { AST_NODE_TYPES, TSESTree } from '@typescript-eslint/typescript-estree';
+import { parseTypeScript } from './metrics/index.js';
+import {
+  QualityGateThresholdsSchema,
+  QualyticsConfigSchema,
+  type QualityGateThresholds,
+  type QualyticsConfig
+} from './schemas.js';
+
+export const JSON_CONFIG_FILENAME = '.qualyticsrc.json';
+export const TS_CONFIG_FILENAME = 'qualytics.config.ts';
+export const PACKAGE_CONFIG_KEY = 'qualytics';
+
+export interface LoadedConfig {
+  path: string;       // file the configuration was read from
+  directory: string;  // directory of that file, which relative patterns are resolved against
+  config: QualyticsConfig;
+}
+
+/**
+ * Evaluates a literal expression (objects, arrays, strings, numbers, booleans
+ * and null, optionally wrapped in `as` or `satisfies`) without running any code
+ */
+function evaluateLiteral(node: TSESTree.Node, bindings: Map<string, TSESTree.Expression>): unknown {
+  switch (node.type) {
+    case AST_NODE_TYPES.TSAsExpression:
+    case AST_NODE_TYPES.TSSatisfiesExpression:
+    case AST_NODE_TYPES.TSNonNullExpression:
+      return evaluateLiteral(node.expression, bindings);
+    case AST_NODE_TYPES.Literal:
+      if (node.value instanceof RegExp || typeof node.value === 'bigint') {
+        break;
+      }
+      return node.value;
+    case AST_NODE_TYPES.TemplateLiteral:
+      if (node.expressions.length === 0) {
+        return node.quasis[0].value.cooked;
+      }
+      break;
+    case AST_NODE_TYPES.UnaryExpression:
+      if (node.operator === '-' && node.argument.type === AST_NODE_TYPES.Literal && typeof node.argument.value === 'number') {
+        return -node.argument.value;
+      }
+      break;
+    case AST_NODE_TYPES.ArrayExpression:
+      return node.elements.map(element => {
+        if (!element || element.type === AST_NODE_TYPES.SpreadElement) {
+          throw new Error(`Unsupported array element at line ${node.loc.start.line}`);
+        }
+        return evaluateLiteral(element, bindings);
+      });
+    case AST_NODE_TYPES.ObjectExpression: {
+      const result: Record<string, unknown> = {};
+      for (const property of node.properties) {
+        if (property.type !== AST_NODE_TYPES.Property || property.computed || property.kind !== 'init') {
+          throw new Error(`Unsupported object member at line ${property.loc.start.line}`);
+        }
+        const key = property.key.type === AST_NODE_TYPES.Identifier ? property.key.name : String((property.key as TSESTree.Literal).value);
+        result[key] = evaluateLiteral(property.value, bindings);
+      }
+      return result;
+    }
+    case AST_NODE_TYPES.Identifier: {
+      const bound = bindings.get(node.name);
+      if (bound) {
+        // Each binding is evaluated without the others, so references cannot cycle
+        return evaluateLiteral(bound, new Map());
+      }
+      break;
+    }
+  }
+  throw new Error(`Unsupported ${node.type} at line ${node.loc.start.line}: the configuration must be a literal value`);
+}
+
+/**
+ * Reads the default export of a qualytics.config.ts file. The file is parsed,
+ * not executed: the export must be an object literal, or a top-level const
+ * initialized with one.
+ */
+function readTypeScriptConfig(code: string, filePath: string): unknown {
+  const ast = parseTypeScript(code, filePath);
+  const bindings = new Map<string, TSESTree.Expression>();
+
+  for (const statement of ast.body) {
+    const declaration = statement.type === AST_NODE_TYPES.ExportNamedDeclaration ? statement.declaration : statement;
+    if (declaration?.type === AST_NODE_TYPES.VariableDeclaration && declaration.kind === 'const') {
+      for (const declarator of declaration.declarations) {
+        if (declarator.id.type === AST_NODE_TYPES.Identifier && declarator.init) {
+          bindings.set(declarator.id.name, declarator.init);
+        }
+      }
+    }
+  }
+
+  const exported = ast.body.find((statement): statement is TSESTree.ExportDefaultDeclaration =>
+    statement.type === AST_NODE_TYPES.ExportDefaultDeclaration);
+  if (!exported) {
+    throw new Error('No default export');
+  }
+  return evaluateLiteral(exported.declaration, bindings);
+}
+
+/**
+ * Reads the raw configuration held by a file in the directory, if any
+ */
+async function readConfigCandidate(directory: string): Promise<{ path: string; value: unknown } | undefined> {
+  const readIfExists = async (filePath: string) => {
+    try {
+      return await fs.readFile(filePath, 'utf-8');
+    } catch {
+      return undefined;
+    }
+  };
+
+  const jsonPath = path.join(directory, JSON_CONFIG_FILENAME);
+  const json = await readIfExists(jsonPath);
+  if (json !== undefined) {
+    return { path: jsonPath, value: JSON.parse(json) };
+  }
+
+  const tsPath = path.join(directory, TS_CONFIG_FILENAME);
+  const ts = await readIfExists(tsPath);
+  if (ts !== undefined) {
+    return { path: tsPath, value: readTypeScriptConfig(ts, tsPath) };
+  }
+
+  const packagePath = path.join(directory, 'package.json');
+  const packageJson = await readIfExists(packagePath);
+  if (packageJson !== undefined) {
+    const value = parsePackageJson(packageJson)?.[PACKAGE_CONFIG_KEY];
+    if (value !== undefined) {
+      return { path: packagePath, value };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Parses a package.json, or returns undefined when it is not valid JSON: a
+ * package that does not opt into qualytics must not break the lookup
+ */
+function parsePackageJson(text: string): Record<string, unknown> | undefined {
+  try {
+    const parsed = JSON.parse(text);
+    return typeof parsed === 'object' && parsed !== null ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Whether a directory is a project root (it holds a package.json or is a
+ * repository root), above which no configuration is looked up
+ */
+async function isProjectRoot(directory: string): Promise<boolean> {
+  for (const marker of ['package.json', '.git']) {
+    try {
+      await fs.stat(path.join(directory, marker));
+      return true;
+    } catch {
+      // Not present
+    }
+  }
+  return false;
+}
+
+/**
+ * Finds the project configuration for a directory: the first of
+ * .qualyticsrc.json, qualytics.config.ts or a package.json with a "qualytics"
+ * key, looking in the directory and then its parents up to the nearest
+ * project root (see isProjectRoot). Returns undefined when there is none, and
+ * throws when the configuration found is invalid.
+ */
+export async function loadProjectConfig(directory: string): Promise<LoadedConfig | undefined> {
+  let current = path.resolve(directory);
+  while (true) {
+    let candidate: { path: string; value: unknown } | undefined;
+    try {
+      candidate = await readConfigCandidate(current);
+    } catch (error) {
+      throw new Error(`Cannot read configuration in ${current}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    if (candidate) {
+      const parsed = QualyticsConfigSchema.safeParse(candidate.value);
+      if (!parsed.success) {
+        const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+        throw new Error(`Invalid configuration in ${candidate.path}:\n${issues.join('\n')}`);
+      }
+      return { path: candidate.path, directory: current, config: parsed.data };
+    }
+
+    const parent = path.dirname(current);
+    if (parent === current || await isProjectRoot(current)) {
+      return undefined;
+    }
+    current = parent;
+  }
+}
+
+/**
+ * Directory a tool call's configuration is looked up from: its directory or
+ * repository, the directory of its file, or else the working directory
+ */
+function configSearchDirectory(args: Record<string, unknown>): string {
+  for (const key of ['directory', 'repository']) {
+    if (typeof args[key] === 'string') {
+      return args[key] as string;
+    }
+  }
+  if (typeof args.filepath === 'string') {
+    return path.dirname(args.filepath);
+  }
+  return process.cwd();
+}
+
+/**
+ * Rewrites ignore patterns written relative to the configuration directory
+ * (gitignore syntax) so they apply relative to a directory inside it.
+ * Unanchored patterns apply at any depth and are kept; anchored patterns
+ * outside the directory are dropped.
+ */
+function rebaseIgnorePatterns(patterns: string[], configDirectory: string, directory: string): string[] {
+  const prefix = path.relative(configDirectory, path.resolve(directory)).split(path.sep).join('/');
+  if (!prefix) {
+    return patterns;
+  }
+
+  return patterns.flatMap(pattern => {
+    const negated = pattern.startsWith('!');
+    const body = negated ? pattern.slice(1) : pattern;
+    const anchored = body.replace(/\/$/, '').includes('/');
+    if (!anchored || body.startsWith('**/')) {
+      return [pattern];
+    }
+    const relative = body.replace(/^\//, '');
+    if (!relative.startsWith(`${prefix}/`)) {
+      return [];
+    }
+    return [`${negated ? '!' : ''}${relative.slice(prefix.length + 1)}`];
+  });
+}
+
+/**
+ * Fills in the arguments a tool call omitted from the project configuration.
+ * Only arguments the tool accepts are set, and explicit arguments win:
+ * configured ignore patterns are added to the call's, and configured
+ * thresholds only fill in thresholds the call did not set.
+ */
+export function withConfigDefaults(schema: z.AnyZodObject, args: unknown, loaded: LoadedConfig | undefined): unknown {
+  if (!loaded || typeof args !== 'object' || args === null) {
+    return args;
+  }
+
+  const shape = schema.shape as z.ZodRawShape;
+  const { config } = loaded;
+  const result: Record<string, unknown> = { ...args };
+
+  if (result.format === undefined && config.format !== undefined && shape.format?.safeParse(config.format).success) {
+    result.format = config.format;
+  }
+  if (result.extensions === undefined && config.extensions !== undefined && shape.extensions) {
+    result.extensions = config.extensions;
+  }
+  if (result.maintainability_variant === undefined && config.maintainability_variant !== undefined && shape.maintainability_variant) {
+    result.maintainability_variant = config.maintainability_variant;
+  }
+  if (shape.ignore_patterns && config.ignore_patterns.length > 0) {
+    const callPatterns = Array.isArray(result.ignore_patterns) ? result.ignore_patterns : [];
+    const directory = configSearchDirectory(result);
+    result.ignore_patterns = [...rebaseIgnorePatterns(config.ignore_patterns, loaded.directory, directory), ...callPatterns];
+  }
+  if (shape.thresholds) {
+    const callThresholds = typeof result.thresholds === 'object' && result.thresholds !== null ? result.thresholds : {};
+    result.thresholds = { ...config.thresholds, ...callThresholds };
+  }
+
+  return result;
+}
+
+/**
+ * Loads the project configuration for a tool call, looked up from its
+ * directory, repository or file (see configSearchDirectory)
+ */
+export async function findToolConfig(args: unknown): Promise<LoadedConfig | undefined> {
+  if (typeof args !== 'object' || args === null) {
+    return undefined;
+  }
+  return loadProjectConfig(configSearchDirectory(args as Record<string, unknown>));
+}
+
+/**
+ * Loads the project configuration for a tool call and fills in the arguments
+ * it omitted, see withConfigDefaults
+ */
+export async function withProjectConfig(schema: z.AnyZodObject, args: unknown): Promise<unknown> {
+  return withConfigDefaults(schema, args, await findToolConfig(args));
+}
+
+/**
+ * Thresholds a tool call sets itself, without defaults or configured values
+ */
+export function explicitThresholds(args: unknown): Partial<QualityGateThresholds> {
+  const thresholds = typeof args === 'object' && args !== null ? (args as Record<string, unknown>).thresholds : undefined;
+  if (typeof thresholds !== 'object' || thresholds === null) {
+    return {};
+  }
+  const parsed = QualityGateThresholdsSchema.partial().parse(thresholds);
+  return Object.fromEntries(Object.entries(parsed).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * Returns a function giving the thresholds of a file (path relative to
+ * `directory`): the base thresholds, then every matching per-path override in
+ * order, then the thresholds the call set explicitly, which always win
+ */
+export function createThresholdResolver(
+  thresholds: QualityGateThresholds,
+  explicit: Partial<QualityGateThresholds>,
+  directory: string,
+  loaded: LoadedConfig | undefined
+): (file: string) => QualityGateThresholds {
+  const overrides = (loaded?.config.overrides ?? []).map(override => ({
+    matcher: ignore().add(override.files),
+    thresholds: override.thresholds
+  }));
+  if (!loaded || overrides.length === 0) {
+    return () => thresholds;
+  }
+
+  return (file: string) => {
+    const relative = path.relative(loaded.directory, path.resolve(directory, file)).split(path.sep).join('/');
+    if (relative.startsWith('../')) {
+      return thresholds;
+    }
+    const overridden = overrides
+      .filter(override => override.matcher.ignores(relative))
+      .reduce((merged, override) => ({ ...merged, ...override.thresholds }), thresholds);
+    return { ...overridden, ...explicit };
+  };
+}
@@ -0,0 +1,250 @@
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { analyzeFile } from './metrics/index.js';
+import { keyFunctionsByName } from './baseline.js';
+import { formatParseDiagnostics, isTypeScriptFile, toFileAnalysisOutput } from './utils.js';
+import {
+  ANALYSIS_SCHEMA_VERSION,
+  GitChangesOutputSchema,
+  type FileAnalysisOutput,
+  type GitChangesOutput,
+  type GitFileChange,
+  type GitFunctionChange
+} from './schemas.js';
+import type { MaintainabilityVariant } from './types/metrics.js';
+
+const WORKING_TREE = 'working tree';
+
+// Blob contents can be large; the default 1MB buffer is not enough for generated files
+const GIT_MAX_BUFFER = 64 * 1024 * 1024;
+
+interface ChangedFile {
+  path: string;
+  previousPath?: string;
+  status: GitFileChange['status'];
+}
+
+/**
+ * Runs the local git binary and returns its stdout
+ */
+export function runGit(cwd: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile('git', args, { cwd, maxBuffer: GIT_MAX_BUFFER, encoding: 'utf8' }, (error, stdout, stderr) => {
+      if (error) {
+        const detail = stderr.trim() || error.message;
+        reject(new Error(`git ${args.join(' ')} failed: ${detail}`));
+        return;
+      }
+      resolve(stdout);
+    });
+  });
+}
+
+export async function getRepositoryRoot(directory: string): Promise<string> {
+  return (await runGit(directory, ['rev-parse', '--show-toplevel'])).trim();
+}
+
+/**
+ * Resolves a revision to its commit hash. Revisions are passed to git as
+ * positional arguments, so one starting with '-' (e.g. --output=file) would be
+ * read as an option; such revisions are rejected, and --end-of-options keeps
+ * rev-parse from reading any other as one.
+ */
+async function resolveRevision(root: string, revision: string): Promise<string> {
+  if (revision.startsWith('-')) {
+    throw new Error(`Invalid revision: ${revision}`);
+  }
+  return (await runGit(root, ['rev-parse', '--verify', '--quiet', '--end-of-options', `${revision}^{commit}`])
+    .catch(() => {
+      throw new Error(`Unknown revision: ${revision}`);
+    })).trim();
+}
+
+/**
+ * Lists source files changed between two revisions, or between a revision
+ * and the working tree (including untracked files) when head is omitted
+ */
+async function listChangedFiles(root: string, base: string, head?: string, extensions?: string[]): Promise<ChangedFile[]> {
+  const diffArgs = ['diff', '--name-status', '-M', '-C', '-z', base];
+  if (head) {
+    diffArgs.push(head);
+  }
+  diffArgs.push('--');
+
+  // -z output is NUL separated: status, path, and a second path for renames and copies
+  const fields = (await runGit(root, diffArgs)).split('\0').filter(Boolean);
+  const changes: ChangedFile[] = [];
+
+  for (let i = 0; i < fields.length; i++) {
+    const code = fields[i][0];
+    if (code === 'R' || code === 'C') {
+      const previousPath = fields[++i];
+      const newPath = fields[++i];
+      changes.push({ path: newPath, previousPath, status: code === 'R' ? 'renamed' : 'copied' });
+    } else {
+      const filePath = fields[++i];
+      const status = code === 'A' ? 'added' : code === 'D' ? 'deleted' : 'modified';
+      changes.push({ path: filePath, status });
+    }
+  }
+
+  if (!head) {
+    const untracked = await runGit(root, ['ls-files', '--others', '--exclude-standard', '-z']);
+    for (const filePath of untracked.split('\0').filter(Boolean)) {
+      changes.push({ path: filePath, status: 'added' });
+    }
+  }
+
+  return changes
+    .filter(change => isTypeScriptFile(change.path, extensions))
+    .sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Reads a file at a revision through git, or from disk for the working tree
+ */
+async function readFileAt(root: string, filePath: string, revision?: string): Promise<string> {
+  if (!revision) {
+    return fs.readFile(path.join(root, filePath), 'utf-8');
+  }
+  return runGit(root, ['show', `${revision}:${filePath}`]);
+}
+
+function compareFunctions(
+  before: FileAnalysisOutput | undefined,
+  after: FileAnalysisOutput | undefined,
+  includeUnchanged: boolean
+): GitFunctionChange[] {
+  const beforeFunctions = new Map(keyFunctionsByName(before?.functions ?? []));
+  const afterFunctions = new Map(keyFunctionsByName(after?.functions ?? []));
+  const changes: GitFunctionChange[] = [];
+
+  for (const [key, fn] of afterFunctions) {
+    const previous = beforeFunctions.get(key);
+    if (!previous) {
+      changes.push({ name: fn.name, status: 'added', after: fn });
+      continue;
+    }
+
+    const changed = JSON.stringify(previous.metrics) !== JSON.stringify(fn.metrics);
+    if (changed || includeUnchanged) {
+      changes.push({ name: fn.name, status: changed ? 'changed' : 'unchanged', before: previous, after: fn });
+    }
+  }
+
+  for (const [key, fn] of beforeFunctions) {
+    if (!afterFunctions.has(key)) {
+      changes.push({ name: fn.name, status: 'removed', before: fn });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Analyzes the source files changed between two revisions, reading blob
+ * contents through git so neither revision needs to be checked out
+ */
+export async function analyzeGitChanges(
+  repository: string,
+  base: string,
+  head: string | undefined,
+  includeUnchanged: boolean,
+  maintainabilityVariant: MaintainabilityVariant,
+  extensions?: string[]
+): Promise<GitChangesOutput> {
+  const root = await getRepositoryRoot(repository);
+  // Commit hashes from here on: no user input reaches git as a positional argument
+  const baseCommit = await resolveRevision(root, base);
+  const headCommit = head === undefined ? undefined : await resolveRevision(root, head);
+  const changedFiles = await listChangedFiles(root, baseCommit, headCommit, extensions);
+  const files: GitFileChange[] = [];
+
+  for (const change of changedFiles) {
+    const beforePath = change.previousPath ?? change.path;
+    const before = change.status === 'added'
+      ? undefined
+      : toFileAnalysisOutput(analyzeFile(await readFileAt(root, beforePath, baseCommit), beforePath, { maintainabilityVariant }), beforePath);
+    const after = change.status === 'deleted'
+      ? undefined
+      : toFileAnalysisOutput(analyzeFile(await readFileAt(root, change.path, headCommit), change.path, { maintainabilityVariant }), change.path);
+    // The zeroed metrics of a file that does not parse are not compared
+    const unparsed = before?.parseStatus === 'failed' || after?.parseStatus === 'failed';
+
+    files.push({
+      path: change.path,
+      previousPath: change.previousPath,
+      status: change.status,
+      beforeParseStatus: before?.parseStatus,
+      afterParseStatus: after?.parseStatus,
+      ...(before && before.diagnostics.length > 0 && { beforeDiagnostics: before.diagnostics }),
+      ...(after && after.diagnostics.length > 0 && { afterDiagnostics: after.diagnostics }),
+      before: before?.parseStatus === 'failed' ? undefined : before?.fileMetrics,
+      after: after?.parseStatus === 'failed' ? undefined : after?.fileMetrics,
+      functions: unparsed ? [] : compareFunctions(before, after, includeUnchanged)
+    });
+  }
+
+  return GitChangesOutputSchema.parse({
+    schemaVersion: ANALYSIS_SCHEMA_VERSION,
+    repository: root,
+    base,
+    head: head ?? WORKING_TREE,
+    maintainabilityVariant,
+    files
+  });
+}
+
+/**
+ * Formats git change analysis as a markdown table of before/after metrics
+ */
+export function formatGitChanges(result: GitChangesOutput) {
+  const lines = [`Changes from ${result.base} to ${result.head} in ${result.repository}: ${result.files.length} source files`];
+  if (result.files.length === 0) {
+    return lines.join('\n');
+  }
+
+  const transition = (before: number | undefined, after: number | undefined, digits = 0) =>
+    `${before === undefined ? '-' : before.toFixed(digits)} → ${after === undefined ? '-' : after.toFixed(digits)}`;
+
+  lines.push(
+    '',
+    `| File | Status | Scope | Name | Lines | Complexity | Cognitive | Maintainability (${result.maintainabilityVariant}) | LOC |`,
+    '|------|--------|-------|------|-------|------------|-----------|-----------------|-----|'
+  );
+
+  for (const file of result.files) {
+    const fileName = file.previousPath ? `${file.previousPath} → ${file.path}` : file.path;
+    const unparsed = file.beforeParseStatus === 'failed' || file.afterParseStatus === 'failed';
+    lines.push(
+      `| ${fileName} | ${file.status}${unparsed ? ' (parse failed)' : ''} | file | - | - | ` +
+      `${transition(file.before?.cyclomaticComplexity, file.after?.cyclomaticComplexity)} | ` +
+      `${transition(file.before?.cognitiveComplexity, file.after?.cognitiveComplexity)} | ` +
+      `${transition(file.before?.maintainabilityIndex, file.after?.maintainabilityIndex, 2)} | ` +
+      `${transition(file.before?.linesOfCode, file.after?.linesOfCode)} |`
+    );
+
+    for (const fn of file.functions) {
+      const located = fn.after ?? fn.before;
+      const range = located ? `${located.startLine}-${located.endLine}` : '-';
+      lines.push(
+        `| ${file.path} | ${fn.status} | function | ${fn.name} | ${range} | ` +
+        `${transition(fn.before?.metrics.cyclomaticComplexity, fn.after?.metrics.cyclomaticComplexity)} | ` +
+        `${transition(fn.before?.metrics.cognitiveComplexity, fn.after?.metrics.cognitiveComplexity)} | ` +
+        `${transition(fn.before?.metrics.maintainabilityIndex, fn.after?.metrics.maintainabilityIndex, 2)} | ` +
+        `${transition(fn.before?.metrics.linesOfCode, fn.after?.metrics.linesOfCode)} |`
+      );
+    }
+  }
+
+  const parseErrors = result.files.flatMap(file => [
+    ...(file.beforeDiagnostics ? [formatParseDiagnostics(`${file.previousPath ?? file.path} (${result.base})`, file.beforeDiagnostics)] : []),
+    ...(file.afterDiagnostics ? [formatParseDiagnostics(`${file.path} (${result.head})`, file.afterDiagnostics)] : [])
+  ]);
+  if (parseErrors.length > 0) {
+    lines.push('', 'Parse errors (files that fail to parse at a revision are not compared):', ...parseErrors);
+  }
+
+  return lines.join('\n');
+}
@@ -1,25 +1,170 @@
 import { promises as fs } from 'fs';
 import path from 'path';
-import { analyzeFile as typescriptAnalyzeFile } from './metrics/index.js';
-import { findTypeScriptFiles, formatAnalysisTable, formatAnalysisText } from './utils.js';
+import { analyzeFile as typescriptAnalyzeFile, parseFile } from './metrics/index.js';
+import { DEFAULT_MAINTAINABILITY_VARIANT } from './metrics/maintainability.js';
+import { collectDeclarations } from './metrics/declarations.js';
+import { analyzeProjectInheritance, type ProjectFile } from './metrics/project-inheritance.js';
+import { buildDependencyGraph, toDot, toMermaid } from './metrics/dependency-graph.js';
+import { findDuplicates, type TokenizedFile } from './metrics/duplication.js';
+import { findLeadingJSDoc, findLocatedFunction, locateFunctions, selectFunction, sourceText } from './metrics/function-source.js';
+import { createModuleResolver, loadPathMappings } from './module-resolution.js';
+import {
+  findTypeScriptFiles,
+  formatAnalysisTable,
+  formatAnalysisText,
+  formatDirectoryTable,
+  formatProjectInheritance,
+  formatDependencyGraph,
+  formatDuplicates,
+  formatFunctionSource,
+  formatParseDiagnostics,
+  toFileAnalysisOutput,
+  toDirectoryAnalysisOutput
+} from './utils.js';
+import { AnalysisCache } from './cache.js';
+import { createThresholdResolver, explicitThresholds, findToolConfig, withConfigDefaults, withProjectConfig } from './config.js';
+import { AnalysisWorkerPool, DEFAULT_CONCURRENCY, mapConcurrently } from './worker-pool.js';
+import { evaluateQualityGate, formatQualityGate } from './quality-gate.js';
+import {
+  DEFAULT_BASELINE_FILENAME,
+  createBaseline,
+  compareWithBaseline,
+  formatBaselineComparison
+} from './baseline.js';
+import { analyzeGitChanges, formatGitChanges } from './git.js';
+import { analyzeHotspots, formatHotspots } from './hotspots.js';
 import {
   TypescriptAnalyzeTextSchema,
   TypescriptAnalyzeFileSchema,
   TypescriptAnalyzeDirectorySchema,
-  ToolName
+  TypescriptQualityGateSchema,
+  TypescriptSaveBaselineSchema,
+  TypescriptCompareBaselineSchema,
+  BaselineSchema,
+  TypescriptAnalyzeGitChangesSchema,
+  TypescriptAnalyzeInheritanceSchema,
+  ProjectInheritanceOutputSchema,
+  TypescriptAnalyzeDependenciesSchema,
+  DependencyGraphOutputSchema,
+  TypescriptAnalyzeHotspotsSchema,
+  TypescriptFindDuplicatesSchema,
+  DuplicatesOutputSchema,
+  TypescriptGetFunctionSourceSchema,
+  FunctionSourceOutputSchema,
+  ANALYSIS_SCHEMA_VERSION,
+  ToolName,
+  type DirectoryFileEntry,
+  type ProjectParseError
 } from './schemas.js';
 
+/**
+ * Context supplied by the server for a tool call
+ */
+export interface ToolContext {
+  // Reports progress to the client when it requested progress notifications
+  reportProgress?: (progress: number, total: number, message?: string) => Promise<void>;
+}
+
+/**
+ * Analyzes every TypeScript file found in a directory on a worker pool,
+ * reusing cached analyses of unchanged files. Entries are returned in path
+ * order regardless of the order in which workers finish.
+ */
+async function analyzeDirectoryFiles(
+  directory: string,
+  ignorePatterns: string[],
+  includeFunctions: boolean,
+  cache: AnalysisCache,
+  extensions?: string[],
+  concurrency = DEFAULT_CONCURRENCY,
+  context: ToolContext = {}
+): Promise<DirectoryFileEntry[]> {
+  const files = (await findTypeScriptFiles(directory, ignorePatterns, extensions))
+    .map(file => ({ file, relativePath: path.relative(directory, file) }))
+    .sort((a, b) => (a.relativePath < b.relativePath ? -1 : a.relativePath > b.relativePath ? 1 : 0));
+  const pool = new AnalysisWorkerPool(concurrency);
+  let completed = 0;
+  
+  try {
+    // Twice the pool size in flight keeps workers busy while files are read
+    return await mapConcurrently(files, concurrency * 2, async ({ file, relativePath }) => {
+      const code = await fs.readFile(file, 'utf-8');
+      const analysis = await cache.analyze(code, file, (code, filePath, options) => pool.analyze(code, filePath, options));
+      await context.reportProgress?.(++completed, files.length, relativePath);
+      
+      return {
+        path: relativePath,
+        parseStatus: analysis.parseStatus,
+        diagnostics: analysis.diagnostics,
+        suppressions: analysis.suppressions,
+        fileMetrics: analysis.fileMetrics,
+        // Function-level metrics only if requested
+        functions: includeFunctions ? analysis.functions : [],
+        classes: includeFunctions ? analysis.classes : []
+      };
+    });
+  } finally {
+    await pool.close();
+  }
+}
+
+/**
+ * Parses the declarations of every TypeScript file in a directory and creates
+ * a module resolver over them, for project-wide (cross-file) analyses. Files
+ * that do not parse are left out and returned with their diagnostics, or fail
+ * the load when failOnParseError is set.
+ */
+async function loadProject(
+  directory: string,
+  ignorePatterns: string[],
+  failOnParseError: boolean,
+  tsconfig?: string,
+  extensions?: string[]
+) {
+  const files = await findTypeScriptFiles(directory, ignorePatterns, extensions);
+  const projectFiles: ProjectFile[] = [];
+  const parseErrors: ProjectParseError[] = [];
+  
+  for (const file of files) {
+    const { ast, diagnostics } = parseFile(await fs.readFile(file, 'utf-8'), file);
+    const relativePath = path.relative(directory, file);
+    if (ast) {
+      projectFiles.push({ path: path.resolve(file), relativePath, declarations: collectDeclarations(ast) });
+    } else {
+      parseErrors.push({ path: relativePath, diagnostics });
+    }
+  }
+
+  if (failOnParseError && parseErrors.length > 0) {
+    throw new Error(`Parse errors:\n${parseErrors.map(error => formatParseDiagnostics(error.path, error.diagnostics)).join('\n')}`);
+  }
+  
+  const mappings = await loadPathMappings(directory, tsconfig);
+  const resolver = createModuleResolver(projectFiles.map(file => file.path), mappings);
+  return { projectFiles, parseErrors, resolver };
+}
+
 export async function handleAnalyzeText(args: unknown) {
   try {
-    const validatedArgs = TypescriptAnalyzeTextSchema.parse(args);
-    const analysis = typescriptAnalyzeFile(validatedArgs.code, "input.ts");
+    const validatedArgs = TypescriptAnalyzeTextSchema.parse(await withProjectConfig(TypescriptAnalyzeTextSchema, args));
+    const analysis = typescriptAnalyzeFile(validatedArgs.code, "input.ts", {
+      partial: validatedArgs.partial_analysis,
+      maintainabilityVariant: validatedArgs.maintainability_variant
+    });
+    if (validatedArgs.fail_on_parse_error && analysis.diagnostics.length > 0) {
+      throw new Error(`Parse errors:\n${formatParseDiagnostics("input.ts", analysis.diagnostics)}`);
+    }
+    const structuredContent = toFileAnalysisOutput(analysis, "input.ts");
     
-    const text = validatedArgs.format === 'table' 
-      ? formatAnalysisTable(analysis)
-      : formatAnalysisText(analysis);
+    const text = validatedArgs.format === 'json'
+      ? JSON.stringify(structuredContent, null, 2)
+      : validatedArgs.format === 'table' 
+        ? formatAnalysisTable(analysis)
+        : formatAnalysisText(analysis);
     
     return {
-      content: [{ type: "text", text }]
+      content: [{ type: "text", text }],
+      structuredContent
     };
   } catch (error) {
     return {
@@ -31,16 +176,25 @@ export async function handleAnalyzeText(args: unknown) {
 
 export async function handleAnalyzeFile(args: unknown) {
   try {
-    const validatedArgs = TypescriptAnalyzeFileSchema.parse(args);
+    const validatedArgs = TypescriptAnalyzeFileSchema.parse(await withProjectConfig(TypescriptAnalyzeFileSchema, args));
     const code = await fs.readFile(validatedArgs.filepath, 'utf-8');
-    const analysis = typescriptAnalyzeFile(code, validatedArgs.filepath);
+    const analysis = typescriptAnalyzeFile(code, validatedArgs.filepath, {
+      partial: validatedArgs.partial_analysis,
+      maintainabilityVariant: validatedArgs.maintainability_variant
+    });
+    if (validatedArgs.fail_on_parse_error && analysis.diagnostics.length > 0) {
+      throw new Error(`Parse errors:\n${formatParseDiagnostics(validatedArgs.filepath, analysis.diagnostics)}`);
+    }
+    const structuredContent = toFileAnalysisOutput(analysis, validatedArgs.filepath);
     
     const content = [];
     
     // Add analysis results
-    const text = validatedArgs.format === 'table'
-      ? formatAnalysisTable(analysis, path.basename(validatedArgs.filepath))
-      : formatAnalysisText(analysis, validatedArgs.filepath);
+    const text = validatedArgs.format === 'json'
+      ? JSON.stringify(structuredContent, null, 2)
+      : validatedArgs.format === 'table'
+        ? formatAnalysisTable(analysis, path.basename(validatedArgs.filepath))
+        : formatAnalysisText(analysis, validatedArgs.filepath);
     
     content.push({ type: "text", text });
     
@@ -56,7 +210,7 @@ export async function handleAnalyzeFile(args: unknown) {
       });
     }
     
-    return { content };
+    return { content, structuredContent };
   } catch (error) {
     return {
       isError: true,
@@ -65,43 +219,408 @@ export async function handleAnalyzeFile(args: unknown) {
   }
 }
 
-export async function handleAnalyzeDirectory(args: unknown) {
+export async function handleAnalyzeDirectory(args: unknown, context: ToolContext = {}) {
+  try {
+    const validatedArgs = TypescriptAnalyzeDirectorySchema.parse(await withProjectConfig(TypescriptAnalyzeDirectorySchema, args));
+    const cache = await AnalysisCache.open(
+      validatedArgs.directory,
+      { partial: validatedArgs.partial_analysis, maintainabilityVariant: validatedArgs.maintainability_variant },
+      { enabled: validatedArgs.cache, clear: validatedArgs.clear_cache }
+    );
+    const entries = await analyzeDirectoryFiles(
+      validatedArgs.directory,
+      validatedArgs.ignore_patterns,
+      validatedArgs.include_functions,
+      cache,
+      validatedArgs.extensions,
+      validatedArgs.concurrency,
+      context
+    );
+    
+    const unparsed = entries.filter(entry => entry.diagnostics.length > 0);
+    if (validatedArgs.fail_on_parse_error && unparsed.length > 0) {
+      throw new Error(`Parse errors:\n${unparsed.map(entry => formatParseDiagnostics(entry.path, entry.diagnostics)).join('\n')}`);
+    }
+    
+    const structuredContent = toDirectoryAnalysisOutput(
+      validatedArgs.directory,
+      entries,
+      validatedArgs.maintainability_variant ?? DEFAULT_MAINTAINABILITY_VARIANT,
+      cache.stats()
+    );
+    const text = validatedArgs.format === 'json'
+      ? JSON.stringify(structuredContent, null, 2)
+      : formatDirectoryTable(entries, structuredContent.maintainabilityVariant, structuredContent.cache);
+    
+    return {
+      content: [{ type: "text", text }],
+      structuredContent
+    };
+  } catch (error) {
+    return {
+      isError: true,
+      content: [{ type: "text", text: `Error analyzing directory: ${error}` }]
+    };
+  }
+}
+
+export async function handleQualityGate(args: unknown, context: ToolContext = {}) {
+  try {
+    const config = await findToolConfig(args);
+    const validatedArgs = TypescriptQualityGateSchema.parse(withConfigDefaults(TypescriptQualityGateSchema, args, config));
+    const cache = await AnalysisCache.open(
+      validatedArgs.directory,
+      { partial: validatedArgs.partial_analysis, maintainabilityVariant: validatedArgs.maintainability_variant },
+      { enabled: validatedArgs.cache, clear: validatedArgs.clear_cache }
+    );
+    const entries = await analyzeDirectoryFiles(
+      validatedArgs.directory,
+      validatedArgs.ignore_patterns,
+      true,
+      cache,
+      validatedArgs.extensions,
+      validatedArgs.concurrency,
+      context
+    );
+    
+    const structuredContent = evaluateQualityGate(
+      validatedArgs.directory,
+      entries,
+      validatedArgs.thresholds,
+      validatedArgs.maintainability_variant ?? DEFAULT_MAINTAINABILITY_VARIANT,
+      validatedArgs.fail_on_parse_error,
+      createThresholdResolver(validatedArgs.thresholds, explicitThresholds(args), validatedArgs.directory, config),
+      config?.path
+    );
+    const text = validatedArgs.format === 'json'
+      ? JSON.stringify(structuredContent, null, 2)
+      : formatQualityGate(structuredContent);
+    
+    return {
+      content: [{ type: "text", text }],
+      structuredContent
+    };
+  } catch (error) {
+    return {
+      isError: true,
+      content: [{ type: "text", text: `Error evaluating quality gate: ${error}` }]
+    };
+  }
+}
+
+export async function handleSaveBaseline(args: unknown, context: ToolContext = {}) {
+  try {
+    const validatedArgs = TypescriptSaveBaselineSchema.parse(await withProjectConfig(TypescriptSaveBaselineSchema, args));
+    const baselinePath = validatedArgs.baseline_path
+      ?? path.join(validatedArgs.directory, DEFAULT_BASELINE_FILENAME);
+    const maintainabilityVariant = validatedArgs.maintainability_variant ?? DEFAULT_MAINTAINABILITY_VARIANT;
+    
+    const result = await handleAnalyzeDirectory({
+      directory: validatedArgs.directory,
+      ignore_patterns: validatedArgs.ignore_patterns,
+      extensions: validatedArgs.extensions,
+      include_functions: true,
+      maintainability_variant: maintainabilityVariant,
+      format: 'json'
+    }, context);
+    if (result.isError || !result.structuredContent) {
+      return result;
+    }
+    
+    const baseline = createBaseline(result.structuredContent, maintainabilityVariant);
+    await fs.writeFile(baselinePath, JSON.stringify(baseline, null, 2), 'utf-8');
+    
+    const entries = Object.values(baseline.entries);
+    const fileCount = entries.filter(entry => entry.scope === 'file').length;
+    return {
+      content: [{
+        type: "text",
+        text: `Saved baseline of ${fileCount} files and ${entries.length - fileCount} functions to ${baselinePath}`
+      }]
+    };
+  } catch (error) {
+    return {
+      isError: true,
+      content: [{ type: "text", text: `Error saving baseline: ${error}` }]
+    };
+  }
+}
+
+export async function handleCompareBaseline(args: unknown, context: ToolContext = {}) {
+  try {
+    const validatedArgs = TypescriptCompareBaselineSchema.parse(await withProjectConfig(TypescriptCompareBaselineSchema, args));
+    const baselinePath = validatedArgs.baseline_path
+      ?? path.join(validatedArgs.directory, DEFAULT_BASELINE_FILENAME);
+    const baseline = BaselineSchema.parse(JSON.parse(await fs.readFile(baselinePath, 'utf-8')));
+    
+    // Maintainability indexes are only comparable when computed with the same formula
+    const result = await handleAnalyzeDirectory({
+      directory: validatedArgs.directory,
+      ignore_patterns: validatedArgs.ignore_patterns,
+      extensions: validatedArgs.extensions,
+      include_functions: true,
+      maintainability_variant: baseline.maintainabilityVariant,
+      format: 'json'
+    }, context);
+    if (result.isError || !result.structuredContent) {
+      return result;
+    }
+    
+    const structuredContent = compareWithBaseline(
+      baseline,
+      baselinePath,
+      result.structuredContent,
+      validatedArgs.tolerance
+    );
+    const text = validatedArgs.format === 'json'
+      ? JSON.stringify(structuredContent, null, 2)
+      : formatBaselineComparison(structuredContent);
+    
+    return {
+      content: [{ type: "text", text }],
+      structuredContent
+    };
+  } catch (error) {
+    return {
+      isError: true,
+      content: [{ type: "text", text: `Error comparing with baseline: ${error}` }]
+    };
+  }
+}
+
+export async function handleAnalyzeGitChanges(args: unknown) {
+  try {
+    const validatedArgs = TypescriptAnalyzeGitChangesSchema.parse(await withProjectConfig(TypescriptAnalyzeGitChangesSchema, args));
+    const structuredContent = await analyzeGitChanges(
+      validatedArgs.repository,
+      validatedArgs.base,
+      validatedArgs.head,
+      validatedArgs.include_unchanged_functions,
+      validatedArgs.maintainability_variant ?? DEFAULT_MAINTAINABILITY_VARIANT,
+      validatedArgs.extensions
+    );
+    
+    const text = validatedArgs.format === 'json'
+      ? JSON.stringify(structuredContent, null, 2)
+      : formatGitChanges(structuredContent);
+    
+    return {
+      content: [{ type: "text", text }],
+      structuredContent
+    };
+  } catch (error) {
+    return {
+      isError: true,
+      content: [{ type: "text", text: `Error analyzing git changes: ${error}` }]
+    };
+  }
+}
+
+export async function handleAnalyzeInheritance(args: unknown) {
+  try {
+    const validatedArgs = TypescriptAnalyzeInheritanceSchema.parse(await withProjectConfig(TypescriptAnalyzeInheritanceSchema, args));
+    const { projectFiles, parseErrors, resolver } = await loadProject(
+      validatedArgs.directory,
+      validatedArgs.ignore_patterns,
+      validatedArgs.fail_on_parse_error,
+      validatedArgs.tsconfig,
+      validatedArgs.extensions
+    );
+    const types = analyzeProjectInheritance(projectFiles, resolver);
+    
+    const structuredContent = ProjectInheritanceOutputSchema.parse({
+      schemaVersion: ANALYSIS_SCHEMA_VERSION,
+      directory: validatedArgs.directory,
+      maxDepthOfInheritance: types.reduce((max, type) => Math.max(max, type.depthOfInheritance), 0),
+      types,
+      parseErrors
+    });
+    const text = validatedArgs.format === 'json'
+      ? JSON.stringify(structuredContent, null, 2)
+      : formatProjectInheritance(structuredContent);
+    
+    return {
+      content: [{ type: "text", text }],
+      structuredContent
+    };
+  } catch (error) {
+    return {
+      isError: true,
+      content: [{ type: "text", text: `Error analyzing inheritance: ${error}` }]
+    };
+  }
+}
+
+export async function handleAnalyzeDependencies(args: unknown) {
+  try {
+    const validatedArgs = TypescriptAnalyzeDependenciesSchema.parse(await withProjectConfig(TypescriptAnalyzeDependenciesSchema, args));
+    const { projectFiles, parseErrors, resolver } = await loadProject(
+      validatedArgs.directory,
+      validatedArgs.ignore_patterns,
+      validatedArgs.fail_on_parse_error,
+      validatedArgs.tsconfig,
+      validatedArgs.extensions
+    );
+    const graph = buildDependencyGraph(projectFiles, resolver, validatedArgs.group_by);
+    
+    const structuredContent = DependencyGraphOutputSchema.parse({
+      schemaVersion: ANALYSIS_SCHEMA_VERSION,
+      directory: validatedArgs.directory,
+      groupBy: validatedArgs.group_by,
+      ...graph,
+      parseErrors
+    });
+    const text = validatedArgs.format === 'json'
+      ? JSON.stringify(structuredContent, null, 2)
+      : validatedArgs.format === 'dot'
+        ? toDot(graph)
+        : validatedArgs.format === 'mermaid'
+          ? toMermaid(graph)
+          : formatDependencyGraph(structuredContent);
+    
+    return {
+      content: [{ type: "text", text }],
+      structuredContent
+    };
+  } catch (error) {
+    return {
+      isError: true,
+      content: [{ type: "text", text: `Error analyzing dependencies: ${error}` }]
+    };
+  }
+}
+
+export async function handleAnalyzeHotspots(args: unknown) {
   try {
-    const validatedArgs = TypescriptAnalyzeDirectorySchema.parse(args);
-    const files = await findTypeScriptFiles(validatedArgs.directory, validatedArgs.ignore_patterns);
+    const validatedArgs = TypescriptAnalyzeHotspotsSchema.parse(await withProjectConfig(TypescriptAnalyzeHotspotsSchema, args));
+    const structuredContent = await analyzeHotspots(
+      validatedArgs.directory,
+      validatedArgs.since,
+      validatedArgs.max_commits,
+      validatedArgs.ignore_patterns,
+      validatedArgs.limit,
+      validatedArgs.maintainability_variant ?? DEFAULT_MAINTAINABILITY_VARIANT,
+      validatedArgs.extensions
+    );
+    
+    const text = validatedArgs.format === 'json'
+      ? JSON.stringify(structuredContent, null, 2)
+      : formatHotspots(structuredContent);
     
-    let tableRows = [
-      '| File | Scope | Name | Type | Lines | LOC | Complexity | Maintainability | Classes | Methods | Avg Complexity | Inheritance Depth |',
-      '|------|--------|------|------|-------|-----|------------|----------------|----------|----------|----------------|------------------|'
-    ];
+    return {
+      content: [{ type: "text", text }],
+      structuredContent
+    };
+  } catch (error) {
+    return {
+      isError: true,
+      content: [{ type: "text", text: `Error analyzing hotspots: ${error}` }]
+    };
+  }
+}
+
+export async function handleFindDuplicates(args: unknown) {
+  try {
+    const validatedArgs = TypescriptFindDuplicatesSchema.parse(await withProjectConfig(TypescriptFindDuplicatesSchema, args));
+    const files = await findTypeScriptFiles(validatedArgs.directory, validatedArgs.ignore_patterns, validatedArgs.extensions);
+    const tokenizedFiles: TokenizedFile[] = [];
+    const skippedFiles: string[] = [];
     
     for (const file of files) {
-      const code = await fs.readFile(file, 'utf-8');
-      const analysis = typescriptAnalyzeFile(code, file);
-      const relativePath = path.relative(validatedArgs.directory, file);
-      
-      // Add file-level metrics
-      tableRows.push(
-        `| ${relativePath} | file | - | - | - | ${analysis.fileMetrics.linesOfCode} | ${analysis.fileMetrics.cyclomaticComplexity} | ${analysis.fileMetrics.maintainabilityIndex.toFixed(2)} | ${analysis.fileMetrics.classCount} | ${analysis.fileMetrics.methodCount} | ${analysis.fileMetrics.averageMethodComplexity.toFixed(2)} | ${analysis.fileMetrics.depthOfInheritance} |`
-      );
-      
-      // Add function-level metrics if requested
-      if (validatedArgs.include_functions) {
-        for (const fn of analysis.functions) {
-          tableRows.push(
-            `| ${relativePath} | function | ${fn.name} | ${fn.type} | ${fn.startLine}-${fn.endLine} | ${fn.metrics.linesOfCode} | ${fn.metrics.cyclomaticComplexity} | ${fn.metrics.maintainabilityIndex.toFixed(2)} | - | ${fn.metrics.methodCount} | ${fn.metrics.averageMethodComplexity.toFixed(2)} | - |`
-          );
-        }
+      const { ast } = parseFile(await fs.readFile(file, 'utf-8'), file);
+      if (ast) {
+        tokenizedFiles.push({ path: path.relative(validatedArgs.directory, file), tokens: ast.tokens ?? [] });
+      } else {
+        skippedFiles.push(path.relative(validatedArgs.directory, file));
       }
     }
     
+    const report = findDuplicates(tokenizedFiles, validatedArgs.min_tokens, validatedArgs.normalize);
+    const lineCount = report.files.reduce((sum, file) => sum + file.lineCount, 0);
+    const duplicatedLines = report.files.reduce((sum, file) => sum + file.duplicatedLines, 0);
+    
+    const structuredContent = DuplicatesOutputSchema.parse({
+      schemaVersion: ANALYSIS_SCHEMA_VERSION,
+      directory: validatedArgs.directory,
+      minTokens: validatedArgs.min_tokens,
+      normalized: validatedArgs.normalize,
+      totals: {
+        fileCount: tokenizedFiles.length,
+        groupCount: report.groups.length,
+        lineCount,
+        duplicatedLines,
+        percentage: lineCount > 0 ? (duplicatedLines / lineCount) * 100 : 0
+      },
+      groups: report.groups,
+      files: report.files
+        .filter(file => file.duplicatedLines > 0)
+        .sort((a, b) => b.percentage - a.percentage || a.path.localeCompare(b.path)),
+      skippedFiles
+    });
+    const text = validatedArgs.format === 'json'
+      ? JSON.stringify(structuredContent, null, 2)
+      : formatDuplicates(structuredContent);
+    
+    return {
+      content: [{ type: "text", text }],
+      structuredContent
+    };
+  } catch (error) {
+    return {
+      isError: true,
+      content: [{ type: "text", text: `Error finding duplicates: ${error}` }]
+    };
+  }
+}
+
+export async function handleGetFunctionSource(args: unknown) {
+  try {
+    const validatedArgs = TypescriptGetFunctionSourceSchema.parse(await withProjectConfig(TypescriptGetFunctionSourceSchema, args));
+    if (validatedArgs.name === undefined && validatedArgs.line === undefined) {
+      throw new Error('Either name or line is required');
+    }
+    
+    const code = await fs.readFile(validatedArgs.filepath, 'utf-8');
+    const options = { maintainabilityVariant: validatedArgs.maintainability_variant, partial: validatedArgs.partial_analysis };
+    const analysis = typescriptAnalyzeFile(code, validatedArgs.filepath, options);
+    // The same parse as the analysis, so a partial analysis is located in the recovered AST
+    const { ast } = parseFile(code, validatedArgs.filepath, options);
+    if (!ast) {
+      throw new Error(`Parse errors:\n${formatParseDiagnostics(validatedArgs.filepath, analysis.diagnostics)}`);
+    }
+    
+    const fn = analysis.functions[selectFunction(analysis.functions, validatedArgs.name, validatedArgs.line)];
+    // Script blocks and skipped lines are blanked in place, so offsets into the parsed source are offsets into the file
+    const located = findLocatedFunction(locateFunctions(ast), fn);
+    
+    const structuredContent = FunctionSourceOutputSchema.parse({
+      schemaVersion: ANALYSIS_SCHEMA_VERSION,
+      file: validatedArgs.filepath,
+      parseStatus: analysis.parseStatus,
+      diagnostics: analysis.diagnostics,
+      name: fn.name,
+      type: fn.type,
+      startLine: fn.startLine,
+      endLine: fn.endLine,
+      containerPath: located.containerPath,
+      qualifiedName: [...located.containerPath, fn.name].join('.'),
+      source: sourceText(code, located.node.range),
+      jsdoc: validatedArgs.include_jsdoc ? findLeadingJSDoc(ast, code, located.docAnchor) : undefined,
+      metrics: fn.metrics,
+      suppressions: fn.suppressions
+    });
+    const text = validatedArgs.format === 'json'
+      ? JSON.stringify(structuredContent, null, 2)
+      : formatFunctionSource(structuredContent);
+    
     return {
-      content: [{ type: "text", text: tableRows.join('\n') }]
+      content: [{ type: "text", text }],
+      structuredContent
     };
   } catch (error) {
     return {
       isError: true,
-      content: [{ type: "text", text: `Error analyzing directory: ${error}` }]
+      content: [{ type: "text", text: `Error getting function source: ${error}` }]
     };
   }
 }
@@ -109,5 +628,14 @@ export async function handleAnalyzeDirectory(args: unknown) {
 export const handlers = {
   [ToolName.TYPESCRIPT_ANALYZE_TEXT]: handleAnalyzeText,
   [ToolName.TYPESCRIPT_ANALYZE_FILE]: handleAnalyzeFile,
-  [ToolName.TYPESCRIPT_ANALYZE_DIRECTORY]: handleAnalyzeDirectory
+  [ToolName.TYPESCRIPT_ANALYZE_DIRECTORY]: handleAnalyzeDirectory,
+  [ToolName.TYPESCRIPT_QUALITY_GATE]: handleQualityGate,
+  [ToolName.TYPESCRIPT_SAVE_BASELINE]: handleSaveBaseline,
+  [ToolName.TYPESCRIPT_COMPARE_BASELINE]: handleCompareBaseline,
+  [ToolName.TYPESCRIPT_ANALYZE_GIT_CHANGES]: handleAnalyzeGitChanges,
+  [ToolName.TYPESCRIPT_ANALYZE_INHERITANCE]: handleAnalyzeInheritance,
+  [ToolName.TYPESCRIPT_ANALYZE_DEPENDENCIES]: handleAnalyzeDependencies,
+  [ToolName.TYPESCRIPT_ANALYZE_HOTSPOTS]: handleAnalyzeHotspots,
+  [ToolName.TYPESCRIPT_FIND_DUPLICATES]: handleFindDuplicates,
+  [ToolName.TYPESCRIPT_GET_FUNCTION_SOURCE]: handleGetFunctionSource
 };
\ No newline at end of file
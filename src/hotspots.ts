@@ -0,0 +1,264 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { analyzeFile } from './metrics/index.js';
+import { keyFunctionsByName } from './baseline.js';
+import { getRepositoryRoot, runGit } from './git.js';
+import { findTypeScriptFiles, formatParseDiagnostics, isTypeScriptFile } from './utils.js';
+import {
+  ANALYSIS_SCHEMA_VERSION,
+  HotspotsOutputSchema,
+  type FileHotspot,
+  type FunctionHotspot,
+  type HotspotsOutput,
+  type UnparsedRevision
+} from './schemas.js';
+import type { FileAnalysis, MaintainabilityVariant } from './types/metrics.js';
+
+// Separates commits in `git log` output; cannot occur in diff text
+const COMMIT_SEPARATOR = '\u0001';
+
+// Most recent revisions of each file analyzed for function changes; each one is read and parsed
+const MAX_FUNCTION_HISTORY_COMMITS = 50;
+
+interface LineRange {
+  start: number;
+  end: number;
+}
+
+interface FileCommit {
+  commit: string;
+  hunks: LineRange[];  // changed lines on the new side of the diff
+}
+
+interface FileHistory {
+  commits: FileCommit[];
+  linesChanged: number;
+}
+
+/**
+ * Parses `git log -p -U0` output into the commits and changed line ranges of each file
+ */
+function parseLog(output: string, extensions?: string[]): { commitCount: number; histories: Map<string, FileHistory> } {
+  const histories = new Map<string, FileHistory>();
+  const chunks = output.split(COMMIT_SEPARATOR).filter(chunk => chunk.trim());
+
+  for (const chunk of chunks) {
+    const lines = chunk.split('\n');
+    const commit = lines[0].trim();
+    let current: FileCommit | undefined;
+    let history: FileHistory | undefined;
+
+    for (let i = 1; i < lines.length; i++) {
+      const line = lines[i];
+
+      // The new path follows the old one; a lone "+++ " line inside a hunk is content
+      if (line.startsWith('+++ ') && lines[i - 1].startsWith('--- ')) {
+        const target = line.slice(4);
+        current = undefined;
+        history = undefined;
+        if (target !== '/dev/null' && target.startsWith('b/') && isTypeScriptFile(target, extensions)) {
+          const filePath = target.slice(2);
+          history = histories.get(filePath) ?? { commits: [], linesChanged: 0 };
+          histories.set(filePath, history);
+          current = { commit, hunks: [] };
+          history.commits.push(current);
+        }
+        continue;
+      }
+
+      const hunk = current && /^@@ -\d+(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/.exec(line);
+      if (hunk && current && history) {
+        const removed = hunk[1] === undefined ? 1 : Number(hunk[1]);
+        const start = Number(hunk[2]);
+        const added = hunk[3] === undefined ? 1 : Number(hunk[3]);
+        history.linesChanged += removed + added;
+        // Pure deletions report the line before the removed block
+        current.hunks.push(added > 0
+          ? { start, end: start + added - 1 }
+          : { start: Math.max(start, 1), end: Math.max(start, 1) });
+      }
+    }
+  }
+
+  return { commitCount: chunks.length, histories };
+}
+
+const overlaps = (hunks: LineRange[], startLine: number, endLine: number) =>
+  hunks.some(hunk => hunk.start <= endLine && hunk.end >= startLine);
+
+/**
+ * Counts, per function name, the commits whose changed lines fall within the
+ * function as it was at that commit, over the most recent
+ * MAX_FUNCTION_HISTORY_COMMITS commits. Revisions that fail to parse are
+ * skipped and returned rather than counted as having no functions.
+ */
+async function countFunctionChanges(
+  root: string,
+  filePath: string,
+  commits: FileCommit[]
+): Promise<{ counts: Map<string, number>; unparsed: UnparsedRevision[] }> {
+  const counts = new Map<string, number>();
+  const unparsed: UnparsedRevision[] = [];
+
+  // git log lists the newest commits first
+  for (const { commit, hunks } of commits.slice(0, MAX_FUNCTION_HISTORY_COMMITS)) {
+    const code = await runGit(root, ['show', `${commit}:${filePath}`]);
+    const analysis = analyzeFile(code, filePath);
+    if (analysis.parseStatus === 'failed') {
+      unparsed.push({ path: filePath, commit, diagnostics: analysis.diagnostics });
+      continue;
+    }
+    for (const [key, fn] of keyFunctionsByName(analysis.functions)) {
+      if (overlaps(hunks, fn.startLine, fn.endLine)) {
+        counts.set(key, (counts.get(key) ?? 0) + 1);
+      }
+    }
+  }
+
+  return { counts, unparsed };
+}
+
+const byPriority = <T extends { score: number; changeCount: number; linesOfCode: number }>(a: T, b: T) =>
+  b.score - a.score || b.changeCount - a.changeCount || b.linesOfCode - a.linesOfCode;
+
+/**
+ * Ranks files and functions by change frequency in the git history window
+ * multiplied by their current cyclomatic complexity. Functions are matched
+ * across commits by name, and a commit counts as a change to a function when
+ * its diff touches the function's line range at that commit. As every
+ * revision has to be read and parsed, functions are only ranked within the
+ * `limit` highest scoring files, see countFunctionChanges.
+ */
+export async function analyzeHotspots(
+  directory: string,
+  since: string,
+  maxCommits: number | undefined,
+  ignorePatterns: string[],
+  limit: number,
+  maintainabilityVariant: MaintainabilityVariant,
+  extensions?: string[]
+): Promise<HotspotsOutput> {
+  const root = await getRepositoryRoot(directory);
+  const realDirectory = await fs.realpath(directory);
+  const pathspec = path.relative(root, realDirectory) || '.';
+
+  // Pin the diff layout so user configuration (noprefix, quoted paths) cannot change it
+  const logArgs = [
+    '-c', 'core.quotePath=false', 'log', `--since=${since}`, '--no-merges', '-p', '-U0', '--no-color',
+    '--no-ext-diff', '--src-prefix=a/', '--dst-prefix=b/', `--format=${COMMIT_SEPARATOR}%H`
+  ];
+  if (maxCommits !== undefined) {
+    logArgs.push(`--max-count=${maxCommits}`);
+  }
+  logArgs.push('--', pathspec);
+
+  const { commitCount, histories } = parseLog(await runGit(root, logArgs), extensions);
+
+  const files: Array<FileHotspot & { analysis: FileAnalysis; history: FileHistory }> = [];
+  const functions: FunctionHotspot[] = [];
+  const unparsedRevisions: UnparsedRevision[] = [];
+
+  for (const file of await findTypeScriptFiles(directory, ignorePatterns, extensions)) {
+    const relativePath = path.relative(root, path.join(realDirectory, path.relative(directory, file)));
+    const history = histories.get(relativePath);
+    if (!history) {
+      continue;
+    }
+
+    const analysis = analyzeFile(await fs.readFile(file, 'utf-8'), file, { maintainabilityVariant });
+    files.push({
+      path: relativePath,
+      changeCount: history.commits.length,
+      linesChanged: history.linesChanged,
+      cyclomaticComplexity: analysis.fileMetrics.cyclomaticComplexity,
+      maintainabilityIndex: analysis.fileMetrics.maintainabilityIndex,
+      linesOfCode: analysis.fileMetrics.linesOfCode,
+      score: history.commits.length * analysis.fileMetrics.cyclomaticComplexity,
+      analysis,
+      history
+    });
+  }
+
+  const rankedFiles = files.sort((a, b) => byPriority(a, b) || a.path.localeCompare(b.path)).slice(0, limit);
+
+  for (const { path: relativePath, analysis, history } of rankedFiles) {
+    const { counts, unparsed } = await countFunctionChanges(root, relativePath, history.commits);
+    unparsedRevisions.push(...unparsed);
+    for (const [key, fn] of keyFunctionsByName(analysis.functions)) {
+      const changeCount = counts.get(key) ?? 0;
+      if (changeCount === 0) {
+        continue;
+      }
+      functions.push({
+        file: relativePath,
+        name: fn.name,
+        startLine: fn.startLine,
+        endLine: fn.endLine,
+        changeCount,
+        cyclomaticComplexity: fn.metrics.cyclomaticComplexity,
+        maintainabilityIndex: fn.metrics.maintainabilityIndex,
+        linesOfCode: fn.metrics.linesOfCode,
+        score: changeCount * fn.metrics.cyclomaticComplexity
+      });
+    }
+  }
+
+  return HotspotsOutputSchema.parse({
+    schemaVersion: ANALYSIS_SCHEMA_VERSION,
+    repository: root,
+    directory,
+    since,
+    commitsAnalyzed: commitCount,
+    maintainabilityVariant,
+    files: rankedFiles.map(({ analysis, history, ...file }) => file),
+    functions: functions.sort((a, b) => byPriority(a, b) || a.file.localeCompare(b.file) || a.startLine - b.startLine).slice(0, limit),
+    unparsedRevisions
+  });
+}
+
+/**
+ * Formats hotspots as ranked markdown tables
+ */
+export function formatHotspots(result: HotspotsOutput) {
+  const lines = [`Hotspots in ${result.directory} since ${result.since}: ${result.commitsAnalyzed} commits analyzed`];
+
+  if (result.files.length === 0) {
+    lines.push('', 'No source files changed in this window.');
+    return lines.join('\n');
+  }
+
+  lines.push(
+    '',
+    '## Files',
+    '',
+    `| Rank | File | Changes | Lines Changed | Complexity | Maintainability (${result.maintainabilityVariant}) | LOC | Score |`,
+    '|------|------|---------|---------------|------------|-----------------|-----|-------|'
+  );
+  result.files.forEach((file, i) => {
+    lines.push(`| ${i + 1} | ${file.path} | ${file.changeCount} | ${file.linesChanged} | ${file.cyclomaticComplexity} | ${file.maintainabilityIndex.toFixed(2)} | ${file.linesOfCode} | ${file.score} |`);
+  });
+
+  if (result.functions.length > 0) {
+    lines.push(
+      '',
+      '## Functions',
+      '',
+      `| Rank | File | Function | Lines | Changes | Complexity | Maintainability (${result.maintainabilityVariant}) | LOC | Score |`,
+      '|------|------|----------|-------|---------|------------|-----------------|-----|-------|'
+    );
+    result.functions.forEach((fn, i) => {
+      lines.push(`| ${i + 1} | ${fn.file} | ${fn.name} | ${fn.startLine}-${fn.endLine} | ${fn.changeCount} | ${fn.cyclomaticComplexity} | ${fn.maintainabilityIndex.toFixed(2)} | ${fn.linesOfCode} | ${fn.score} |`);
+    });
+  }
+
+  if (result.unparsedRevisions.length > 0) {
+    lines.push(
+      '',
+      'Revisions skipped when counting function changes (they fail to parse):',
+      ...result.unparsedRevisions.map(revision =>
+        formatParseDiagnostics(`${revision.path} (${revision.commit.slice(0, 7)})`, revision.diagnostics))
+    );
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,193 @@
+import { randomUUID } from "crypto";
+import type { Server as HttpServer } from "http";
+import type { Socket } from "net";
+import express from "express";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+export const MCP_ENDPOINT = "/mcp";
+export const SSE_ENDPOINT = "/sse";
+export const SSE_MESSAGES_ENDPOINT = "/messages";
+
+// Bind addresses, and Host and Origin hostnames, that only reach this machine
+const LOOPBACK_HOSTNAMES = new Set(["localhost", "127.0.0.1", "::1", "[::1]"]);
+
+const sendJsonRpcError = (res: express.Response, status: number, message: string) => {
+  res.status(status).json({
+    jsonrpc: "2.0",
+    error: { code: -32000, message },
+    id: null
+  });
+};
+
+/**
+ * Returns a function closing a session's server at most once: closing the
+ * server closes its transport, whose onclose calls the function again
+ */
+const serverCloser = (server: Server) => {
+  let closed = false;
+  return () => {
+    if (!closed) {
+      closed = true;
+      server.close().catch(error => console.error("Error closing MCP session:", error));
+    }
+  };
+};
+
+const isLoopbackUrl = (url: string) => {
+  try {
+    return LOOPBACK_HOSTNAMES.has(new URL(url).hostname);
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Rejects requests whose Host or Origin header names another host. A server
+ * bound to a loopback address is otherwise reachable from any web page
+ * through DNS rebinding: a name the page controls re-resolved to 127.0.0.1.
+ */
+const rejectForeignHosts: express.RequestHandler = (req, res, next) => {
+  const host = req.header("host");
+  const origin = req.header("origin");
+  if (!host || !isLoopbackUrl(`http://${host}`)) {
+    sendJsonRpcError(res, 403, `Forbidden: invalid Host header: ${host ?? "(none)"}`);
+  } else if (origin !== undefined && !isLoopbackUrl(origin)) {
+    sendJsonRpcError(res, 403, `Forbidden: invalid Origin header: ${origin}`);
+  } else {
+    next();
+  }
+};
+
+/**
+ * Runs an async route handler, answering with a JSON-RPC error when it throws
+ * before a response was started; Express 4 does not handle rejected promises
+ */
+const withErrorResponse = (
+  description: string,
+  handler: (req: express.Request, res: express.Response) => Promise<void>
+) => async (req: express.Request, res: express.Response) => {
+  try {
+    await handler(req, res);
+  } catch (error) {
+    console.error(`Error handling ${description}:`, error);
+    if (!res.headersSent) {
+      sendJsonRpcError(res, 500, "Internal server error");
+    }
+  }
+};
+
+/**
+ * Serves MCP over HTTP: the Streamable HTTP transport on /mcp, and the legacy
+ * HTTP+SSE transport on /sse (event stream) and /messages (client posts).
+ * Every session gets its own server from createServer, so several clients can
+ * share one process. When bound to a loopback address, requests must name a
+ * loopback host in their Host and Origin headers, see rejectForeignHosts.
+ * Resolves once listening, with a function that closes all sessions and stops
+ * the listener.
+ */
+export async function serveHttp(
+  createServer: () => Promise<Server>,
+  port: number,
+  host: string
+): Promise<() => Promise<void>> {
+  const streamableTransports = new Map<string, StreamableHTTPServerTransport>();
+  const sseTransports = new Map<string, SSEServerTransport>();
+
+  const app = express();
+  if (LOOPBACK_HOSTNAMES.has(host)) {
+    app.use(rejectForeignHosts);
+  }
+  app.use(express.json({ limit: "10mb" }));
+
+  app.post(MCP_ENDPOINT, withErrorResponse("MCP request", async (req, res) => {
+    const sessionId = req.header("mcp-session-id");
+    let transport = sessionId ? streamableTransports.get(sessionId) : undefined;
+
+    if (!transport) {
+      if (sessionId || !isInitializeRequest(req.body)) {
+        sendJsonRpcError(res, 400, sessionId ? `Unknown session: ${sessionId}` : "Bad Request: no session ID provided");
+        return;
+      }
+
+      const server = await createServer();
+      const closeServer = serverCloser(server);
+      const newTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          streamableTransports.set(id, newTransport);
+        }
+      });
+      newTransport.onclose = () => {
+        if (newTransport.sessionId) {
+          streamableTransports.delete(newTransport.sessionId);
+        }
+        closeServer();
+      };
+      await server.connect(newTransport);
+      transport = newTransport;
+    }
+
+    await transport.handleRequest(req, res, req.body);
+  }));
+
+  // GET opens the server-to-client notification stream, DELETE ends the session
+  const handleSessionRequest = withErrorResponse("MCP session request", async (req, res) => {
+    const sessionId = req.header("mcp-session-id");
+    const transport = sessionId ? streamableTransports.get(sessionId) : undefined;
+    if (!transport) {
+      sendJsonRpcError(res, 400, sessionId ? `Unknown session: ${sessionId}` : "Bad Request: no session ID provided");
+      return;
+    }
+    await transport.handleRequest(req, res);
+  });
+  app.get(MCP_ENDPOINT, handleSessionRequest);
+  app.delete(MCP_ENDPOINT, handleSessionRequest);
+
+  app.get(SSE_ENDPOINT, withErrorResponse("SSE connection", async (_req, res) => {
+    const server = await createServer();
+    const closeServer = serverCloser(server);
+    const transport = new SSEServerTransport(SSE_MESSAGES_ENDPOINT, res);
+    sseTransports.set(transport.sessionId, transport);
+    transport.onclose = closeServer;
+    res.on("close", () => {
+      sseTransports.delete(transport.sessionId);
+      closeServer();
+    });
+    await server.connect(transport);
+  }));
+
+  app.post(SSE_MESSAGES_ENDPOINT, withErrorResponse("SSE message", async (req, res) => {
+    const sessionId = String(req.query.sessionId ?? "");
+    const transport = sseTransports.get(sessionId);
+    if (!transport) {
+      res.status(400).send(`Unknown session: ${sessionId}`);
+      return;
+    }
+    await transport.handlePostMessage(req, res, req.body);
+  }));
+
+  const httpServer = await new Promise<HttpServer>((resolve, reject) => {
+    const listener = app.listen(port, host, () => resolve(listener));
+    listener.on("error", reject);
+  });
+
+  // Keep-alive connections would otherwise hold shutdown open until they time out
+  const sockets = new Set<Socket>();
+  httpServer.on("connection", (socket: Socket) => {
+    sockets.add(socket);
+    socket.on("close", () => sockets.delete(socket));
+  });
+
+  return async () => {
+    const transports = [...streamableTransports.values(), ...sseTransports.values()];
+    await Promise.all(transports.map(transport => transport.close()));
+    const closed = new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    for (const socket of sockets) {
+      socket.destroy();
+    }
+    await closed;
+  };
+}
@@ -1,7 +1,28 @@
 #!/usr/bin/env node
-import { startup } from "./server.js";
+import { parseStartupArgs, startup } from "./server.js";
+import { runCli } from "./cli.js";
 
-startup().catch((error) => {
-  console.error("Fatal error:", error);
-  process.exit(1);
-});
\ No newline at end of file
+const args = process.argv.slice(2);
+
+const SERVER_FLAGS = ['--transport', '--port', '--host'];
+
+// No arguments or server flags start the MCP server; anything else is a CLI command
+if (args.length === 0 || SERVER_FLAGS.includes(args[0])) {
+  Promise.resolve(args)
+    .then(parseStartupArgs)
+    .then(startup)
+    .catch((error) => {
+      console.error("Fatal error:", error);
+      process.exit(1);
+    });
+} else {
+  // Set exitCode rather than exiting so buffered output is flushed
+  runCli(args)
+    .then((exitCode) => {
+      process.exitCode = exitCode;
+    })
+    .catch((error) => {
+      console.error("Fatal error:", error);
+      process.exit(2);
+    });
+}
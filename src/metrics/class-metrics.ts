@@ -0,0 +1,371 @@
+import { AST_NODE_TYPES, TSESTree } from "@typescript-eslint/typescript-estree";
+import type { ClassInfo } from "../types/metrics.js";
+import { isASTNode, traverseAST } from "../ast-utils.js";
+import { cyclomaticComplexityCalculator } from "./complexity.js";
+
+type ClassNode = TSESTree.ClassDeclaration | TSESTree.ClassExpression;
+type Accessibility = "public" | "protected" | "private";
+type MethodKind = "constructor" | "method" | "get" | "set";
+
+interface MethodUsage {
+  key: string;                 // kind and name, e.g. "get total", so that a getter and its setter stay apart
+  fields: Set<string>;
+  calledMethods: Set<string>;  // keys of the methods called and the accessors used through this
+  calls: Set<string>;          // every call target, e.g. "helper", "this.save", "repo.find"
+}
+
+// Global and utility types that do not count as coupling to another class
+const BUILTIN_TYPES = new Set([
+  "Array", "ReadonlyArray", "Promise", "PromiseLike", "Map", "ReadonlyMap", "Set", "ReadonlySet",
+  "WeakMap", "WeakSet", "Record", "Partial", "Required", "Readonly", "Pick", "Omit", "Exclude",
+  "Extract", "NonNullable", "ReturnType", "Parameters", "InstanceType", "Awaited", "Date", "RegExp",
+  "Error", "Object", "String", "Number", "Boolean", "Symbol", "Function", "JSON", "Math", "Iterable",
+  "Iterator", "AsyncIterable", "AsyncIterator", "Generator", "AsyncGenerator"
+]);
+
+// Nodes that rebind `this`, so accesses inside them do not belong to the enclosing class
+const THIS_BOUNDARY_NODES = new Set([
+  AST_NODE_TYPES.ClassDeclaration,
+  AST_NODE_TYPES.ClassExpression,
+  AST_NODE_TYPES.FunctionDeclaration,
+  AST_NODE_TYPES.FunctionExpression
+]);
+
+/**
+ * Walks a subtree without descending into nested nodes that rebind `this`
+ */
+function walkSameThis(node: TSESTree.Node, visit: (node: TSESTree.Node) => void): void {
+  visit(node);
+  for (const key in node) {
+    if (!Object.prototype.hasOwnProperty.call(node, key) || key === "parent") {
+      continue;
+    }
+    const child = (node as any)[key];
+    const children = Array.isArray(child) ? child : [child];
+    for (const item of children) {
+      if (isASTNode(item) && !THIS_BOUNDARY_NODES.has(item.type)) {
+        walkSameThis(item, visit);
+      }
+    }
+  }
+}
+
+class ClassMetricsCalculator {
+  analyzeClasses(ast: TSESTree.Node): ClassInfo[] {
+    const classes: ClassInfo[] = [];
+    // Type parameters declared by the nodes being traversed, e.g. of a generic function around a class
+    const typeParameterScopes: string[][] = [];
+
+    traverseAST(
+      ast,
+      (node) => {
+        if ((node.type === AST_NODE_TYPES.ClassDeclaration || node.type === AST_NODE_TYPES.ClassExpression) && node.loc) {
+          classes.push(this.analyzeClass(node, typeParameterScopes.flat()));
+        }
+        typeParameterScopes.push(this.declaredTypeParameters(node));
+      },
+      () => {
+        typeParameterScopes.pop();
+      }
+    );
+
+    return classes.sort((a, b) => a.startLine - b.startLine);
+  }
+
+  private analyzeClass(node: ClassNode, enclosingTypeParameters: string[]): ClassInfo {
+    const fields = new Set<string>();
+    const methodNames = new Set<string>();
+    const accessorNames = new Set<string>();
+    const methods: Array<{ name: string; kind: MethodKind; body: TSESTree.Node }> = [];
+    const accessCounts: Record<Accessibility, number> = { public: 0, protected: 0, private: 0 };
+
+    for (const member of node.body.body) {
+      switch (member.type) {
+        case AST_NODE_TYPES.MethodDefinition: {
+          // Overload signatures have no body and are not separate methods
+          if (member.value.type === AST_NODE_TYPES.TSEmptyBodyFunctionExpression) {
+            break;
+          }
+          const name = this.memberName(member.key);
+          accessCounts[this.accessibility(member)]++;
+          if (member.kind === "constructor") {
+            methods.push({ name, kind: "constructor", body: member.value });
+            // Parameter properties (constructor(private repo: Repo)) are fields
+            for (const param of member.value.params) {
+              if (param.type === AST_NODE_TYPES.TSParameterProperty) {
+                const parameter = param.parameter;
+                const id = parameter.type === AST_NODE_TYPES.AssignmentPattern ? parameter.left : parameter;
+                if (id.type === AST_NODE_TYPES.Identifier) {
+                  fields.add(id.name);
+                  accessCounts[param.accessibility ?? "public"]++;
+                }
+              }
+            }
+          } else {
+            methodNames.add(name);
+            if (member.kind !== "method") {
+              accessorNames.add(name);
+            }
+            methods.push({ name, kind: member.kind, body: member.value });
+          }
+          break;
+        }
+
+        case AST_NODE_TYPES.PropertyDefinition: {
+          const name = this.memberName(member.key);
+          accessCounts[this.accessibility(member)]++;
+          // Arrow function properties behave like methods
+          if (member.value && (member.value.type === AST_NODE_TYPES.ArrowFunctionExpression ||
+                               member.value.type === AST_NODE_TYPES.FunctionExpression)) {
+            methodNames.add(name);
+            methods.push({ name, kind: "method", body: member.value });
+          } else {
+            fields.add(name);
+          }
+          break;
+        }
+
+        case AST_NODE_TYPES.TSAbstractMethodDefinition:
+          methodNames.add(this.memberName(member.key));
+          accessCounts[this.accessibility(member)]++;
+          break;
+
+        case AST_NODE_TYPES.TSAbstractPropertyDefinition:
+        case AST_NODE_TYPES.TSAbstractAccessorProperty:
+        case AST_NODE_TYPES.AccessorProperty:
+          fields.add(this.memberName(member.key));
+          accessCounts[this.accessibility(member)]++;
+          break;
+      }
+    }
+
+    const usages = methods.map(method => this.collectUsage(`${method.kind} ${method.name}`, method.body, methodNames, accessorNames));
+    const nonConstructorUsages = usages.filter((_, i) => methods[i].kind !== "constructor");
+
+    const weightedMethodsPerClass = methods.reduce((sum, method) => sum + cyclomaticComplexityCalculator.process(method.body), 0);
+
+    // RFC: the methods of the class plus every distinct call target outside it
+    const remoteCalls = new Set<string>();
+    for (const usage of usages) {
+      for (const call of usage.calls) {
+        remoteCalls.add(call);
+      }
+    }
+    for (const name of methodNames) {
+      remoteCalls.delete(`this.${name}`);
+    }
+
+    return {
+      name: node.id?.name ?? "<anonymous>",
+      startLine: node.loc.start.line,
+      endLine: node.loc.end.line,
+      metrics: {
+        weightedMethodsPerClass,
+        lackOfCohesion: this.calculateLcom4(nonConstructorUsages),
+        responseForClass: methods.length + remoteCalls.size,
+        couplingBetweenObjects: this.countCoupledTypes(node, enclosingTypeParameters),
+        fieldCount: fields.size,
+        methodCount: methods.length,
+        publicMemberCount: accessCounts.public,
+        protectedMemberCount: accessCounts.protected,
+        privateMemberCount: accessCounts.private,
+      },
+    };
+  }
+
+  /**
+   * Collects the fields, methods and call targets a method uses. Reading an
+   * accessor through this uses its getter and assigning it uses its setter;
+   * compound assignments and updates use both.
+   */
+  private collectUsage(key: string, body: TSESTree.Node, methodNames: Set<string>, accessorNames: Set<string>): MethodUsage {
+    const usage: MethodUsage = { key, fields: new Set(), calledMethods: new Set(), calls: new Set() };
+    const assigned = new Set<TSESTree.Node>();
+    const readAndAssigned = new Set<TSESTree.Node>();
+
+    // Assignments are visited before their target, which is one of their children
+    walkSameThis(body, (node) => {
+      if (node.type === AST_NODE_TYPES.AssignmentExpression) {
+        assigned.add(node.left);
+        if (node.operator !== "=") readAndAssigned.add(node.left);
+      } else if (node.type === AST_NODE_TYPES.UpdateExpression) {
+        assigned.add(node.argument);
+        readAndAssigned.add(node.argument);
+      } else if (node.type === AST_NODE_TYPES.MemberExpression &&
+          node.object.type === AST_NODE_TYPES.ThisExpression && !node.computed) {
+        const member = this.memberName(node.property);
+        if (accessorNames.has(member)) {
+          if (assigned.has(node)) usage.calledMethods.add(`set ${member}`);
+          if (!assigned.has(node) || readAndAssigned.has(node)) usage.calledMethods.add(`get ${member}`);
+        } else if (methodNames.has(member)) {
+          usage.calledMethods.add(`method ${member}`);
+        } else {
+          usage.fields.add(member);
+        }
+      } else if (node.type === AST_NODE_TYPES.CallExpression) {
+        usage.calls.add(this.calleeKey(node.callee));
+      }
+    });
+
+    return usage;
+  }
+
+  /**
+   * LCOM4: the number of connected components among methods, where two methods
+   * are connected when they use a common field or one calls the other.
+   * Constructors are excluded as they typically initialise every field.
+   */
+  private calculateLcom4(usages: MethodUsage[]): number {
+    const parent = usages.map((_, i) => i);
+    const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+    const union = (a: number, b: number) => {
+      parent[find(a)] = find(b);
+    };
+
+    const indexByKey = new Map(usages.map((usage, i) => [usage.key, i]));
+    const fieldOwners = new Map<string, number>();
+
+    usages.forEach((usage, i) => {
+      for (const field of usage.fields) {
+        const owner = fieldOwners.get(field);
+        if (owner === undefined) {
+          fieldOwners.set(field, i);
+        } else {
+          union(i, owner);
+        }
+      }
+      for (const called of usage.calledMethods) {
+        const target = indexByKey.get(called);
+        if (target !== undefined) {
+          union(i, target);
+        }
+      }
+    });
+
+    return new Set(usages.map((_, i) => find(i))).size;
+  }
+
+  /**
+   * Type parameter names a node declares for its descendants: the generics of
+   * classes, functions, methods and type declarations, the key of a mapped
+   * type and the infer variables of a conditional type
+   */
+  private declaredTypeParameters(node: TSESTree.Node): string[] {
+    switch (node.type) {
+      case AST_NODE_TYPES.TSMappedType:
+        return [node.key.name];
+      case AST_NODE_TYPES.TSConditionalType: {
+        const inferred: string[] = [];
+        traverseAST(node.extendsType, (child) => {
+          if (child.type === AST_NODE_TYPES.TSInferType) {
+            inferred.push(child.typeParameter.name.name);
+          }
+        });
+        return inferred;
+      }
+      default: {
+        const declaration = (node as { typeParameters?: TSESTree.TSTypeParameterDeclaration }).typeParameters;
+        return declaration?.type === AST_NODE_TYPES.TSTypeParameterDeclaration
+          ? declaration.params.map(param => param.name.name)
+          : [];
+      }
+    }
+  }
+
+  /**
+   * CBO: distinct other types referenced through heritage clauses, type
+   * annotations and instantiation, excluding built-in types and the type
+   * parameters in scope at the reference (of the class, of enclosing
+   * functions and of its methods, e.g. T in m<T>(x: T)). Member access
+   * (e.g. Logger.info or Math.max) does not count: an identifier alone does
+   * not tell a class from a namespace, an enum or a constant.
+   */
+  private countCoupledTypes(node: ClassNode, enclosingTypeParameters: string[]): number {
+    const coupled = new Set<string>();
+    // Type parameters around and of the class, then one entry per node being traversed
+    const scopes: string[][] = [enclosingTypeParameters, this.declaredTypeParameters(node)];
+    const isTypeParameter = (name: string) => scopes.some(scope => scope.includes(name));
+
+    const addIdentifier = (expression: TSESTree.Node) => {
+      if (expression.type === AST_NODE_TYPES.Identifier) {
+        coupled.add(expression.name);
+      } else if (expression.type === AST_NODE_TYPES.MemberExpression && !expression.computed) {
+        coupled.add(this.calleeKey(expression));
+      } else if (expression.type === AST_NODE_TYPES.TSQualifiedName) {
+        coupled.add(`${this.entityName(expression.left)}.${expression.right.name}`);
+      }
+    };
+
+    if (node.superClass) addIdentifier(node.superClass);
+    for (const impl of node.implements ?? []) addIdentifier(impl.expression);
+
+    traverseAST(
+      node.body,
+      (child) => {
+        scopes.push(this.declaredTypeParameters(child));
+        if (child.type === AST_NODE_TYPES.TSTypeReference) {
+          if (child.typeName.type !== AST_NODE_TYPES.Identifier || !isTypeParameter(child.typeName.name)) {
+            addIdentifier(child.typeName);
+          }
+        } else if (child.type === AST_NODE_TYPES.NewExpression) {
+          addIdentifier(child.callee);
+        }
+      },
+      () => {
+        scopes.pop();
+      }
+    );
+
+    if (node.id) coupled.delete(node.id.name);
+    for (const name of [...coupled]) {
+      if (BUILTIN_TYPES.has(name)) {
+        coupled.delete(name);
+      }
+    }
+    return coupled.size;
+  }
+
+  private calleeKey(callee: TSESTree.Node): string {
+    switch (callee.type) {
+      case AST_NODE_TYPES.Identifier:
+        return callee.name;
+      case AST_NODE_TYPES.ThisExpression:
+        return "this";
+      case AST_NODE_TYPES.Super:
+        return "super";
+      case AST_NODE_TYPES.MemberExpression:
+        return callee.computed
+          ? `${this.calleeKey(callee.object)}[]`
+          : `${this.calleeKey(callee.object)}.${this.memberName(callee.property)}`;
+      default:
+        return "<expression>";
+    }
+  }
+
+  private entityName(name: TSESTree.EntityName): string {
+    switch (name.type) {
+      case AST_NODE_TYPES.Identifier:
+        return name.name;
+      case AST_NODE_TYPES.TSQualifiedName:
+        return `${this.entityName(name.left)}.${name.right.name}`;
+      default:
+        return "this";
+    }
+  }
+
+  private memberName(key: TSESTree.Node): string {
+    if (key.type === AST_NODE_TYPES.Identifier) return key.name;
+    if (key.type === AST_NODE_TYPES.PrivateIdentifier) return `#${key.name}`;
+    if (key.type === AST_NODE_TYPES.Literal) return String(key.value);
+    return "<computed>";
+  }
+
+  private accessibility(member: { accessibility?: string; key: TSESTree.Node }): Accessibility {
+    if (member.key.type === AST_NODE_TYPES.PrivateIdentifier) {
+      return "private";
+    }
+    return (member.accessibility as Accessibility | undefined) ?? "public";
+  }
+}
+
+export const classMetricsCalculator = new ClassMetricsCalculator();
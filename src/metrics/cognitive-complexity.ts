@@ -0,0 +1,208 @@
+import { AST_NODE_TYPES, TSESTree } from "@typescript-eslint/typescript-estree";
+import type { MetricsProcessor } from "../types/metrics.js";
+import { isASTNode } from "../ast-utils.js";
+
+interface CognitiveContext {
+  functionName?: string;
+  inFunction: boolean;
+}
+
+/**
+ * Cognitive complexity following the SonarSource specification:
+ * - +1 for each break in the linear flow (if, else if, else, ternary, switch,
+ *   loops, catch, labelled break/continue, recursion)
+ * - +1 for each sequence of like logical operators (a && b || c counts 2)
+ * - an additional +nesting for structures nested inside other structures
+ *   (if, ternary, switch, loops, catch) or inside nested functions
+ */
+class CognitiveComplexityCalculator implements MetricsProcessor {
+  private static readonly LOOP_NODES = new Set([
+    AST_NODE_TYPES.ForStatement,
+    AST_NODE_TYPES.ForInStatement,
+    AST_NODE_TYPES.ForOfStatement,
+    AST_NODE_TYPES.WhileStatement,
+    AST_NODE_TYPES.DoWhileStatement
+  ]);
+
+  private static readonly FUNCTION_NODES = new Set([
+    AST_NODE_TYPES.FunctionDeclaration,
+    AST_NODE_TYPES.FunctionExpression,
+    AST_NODE_TYPES.ArrowFunctionExpression
+  ]);
+
+  private complexity = 0;
+
+  /**
+   * @param functionName name of the analyzed function, used to detect recursion
+   *   when the node itself does not carry it (e.g. method values, arrow functions)
+   */
+  process(ast: TSESTree.Node, functionName?: string): number {
+    this.complexity = 0;
+    this.visit(ast, 0, { functionName, inFunction: false });
+    return this.complexity;
+  }
+
+  private visit(node: TSESTree.Node, nesting: number, context: CognitiveContext): void {
+    if (CognitiveComplexityCalculator.FUNCTION_NODES.has(node.type)) {
+      this.visitFunction(node as TSESTree.FunctionLike, nesting, context);
+      return;
+    }
+
+    if (CognitiveComplexityCalculator.LOOP_NODES.has(node.type)) {
+      this.complexity += 1 + nesting;
+      this.visitChildren(node, nesting, context, ["body"]);
+      return;
+    }
+
+    switch (node.type) {
+      case AST_NODE_TYPES.IfStatement:
+        this.visitIf(node, nesting, context, false);
+        return;
+
+      case AST_NODE_TYPES.ConditionalExpression:
+        this.complexity += 1 + nesting;
+        this.visit(node.test, nesting, context);
+        this.visit(node.consequent, nesting + 1, context);
+        this.visit(node.alternate, nesting + 1, context);
+        return;
+
+      case AST_NODE_TYPES.SwitchStatement:
+        this.complexity += 1 + nesting;
+        this.visitChildren(node, nesting, context, ["cases"]);
+        return;
+
+      case AST_NODE_TYPES.CatchClause:
+        this.complexity += 1 + nesting;
+        this.visitChildren(node, nesting, context, ["body"]);
+        return;
+
+      case AST_NODE_TYPES.BreakStatement:
+      case AST_NODE_TYPES.ContinueStatement:
+        if (node.label) {
+          this.complexity++;
+        }
+        return;
+
+      case AST_NODE_TYPES.LogicalExpression:
+        this.visitLogicalSequence(node, nesting, context);
+        return;
+
+      case AST_NODE_TYPES.CallExpression:
+        if (this.isRecursiveCall(node, context)) {
+          this.complexity++;
+        }
+        break;
+
+      case AST_NODE_TYPES.MethodDefinition:
+        if (node.key.type === AST_NODE_TYPES.Identifier) {
+          this.visit(node.value, nesting, { ...context, functionName: node.key.name });
+          return;
+        }
+        break;
+
+      case AST_NODE_TYPES.VariableDeclarator:
+        if (node.id.type === AST_NODE_TYPES.Identifier && node.init &&
+            CognitiveComplexityCalculator.FUNCTION_NODES.has(node.init.type)) {
+          this.visit(node.init, nesting, { ...context, functionName: node.id.name });
+          return;
+        }
+        break;
+    }
+
+    this.visitChildren(node, nesting, context);
+  }
+
+  private visitIf(node: TSESTree.IfStatement, nesting: number, context: CognitiveContext, isElseIf: boolean): void {
+    // "else if" is a hybrid increment: it breaks the flow but carries no nesting penalty
+    this.complexity += isElseIf ? 1 : 1 + nesting;
+    this.visit(node.test, nesting, context);
+    this.visit(node.consequent, nesting + 1, context);
+
+    if (!node.alternate) {
+      return;
+    }
+
+    if (node.alternate.type === AST_NODE_TYPES.IfStatement) {
+      this.visitIf(node.alternate, nesting, context, true);
+    } else {
+      this.complexity++;
+      this.visit(node.alternate, nesting + 1, context);
+    }
+  }
+
+  private visitFunction(node: TSESTree.FunctionLike, nesting: number, context: CognitiveContext): void {
+    // Only functions nested inside another function increase the nesting level
+    const bodyNesting = context.inFunction ? nesting + 1 : nesting;
+    const functionName = node.id?.name ?? context.functionName;
+    this.visitChildren(node, bodyNesting, { functionName, inFunction: true });
+  }
+
+  private visitLogicalSequence(node: TSESTree.LogicalExpression, nesting: number, context: CognitiveContext): void {
+    const operators: string[] = [];
+    const operands: TSESTree.Node[] = [];
+
+    const flatten = (expression: TSESTree.Node) => {
+      if (expression.type === AST_NODE_TYPES.LogicalExpression) {
+        flatten(expression.left);
+        operators.push(expression.operator);
+        flatten(expression.right);
+      } else {
+        operands.push(expression);
+      }
+    };
+    flatten(node);
+
+    // One increment per run of like operators
+    this.complexity += operators.filter((op, i) => i === 0 || op !== operators[i - 1]).length;
+
+    for (const operand of operands) {
+      this.visit(operand, nesting, context);
+    }
+  }
+
+  private isRecursiveCall(node: TSESTree.CallExpression, context: CognitiveContext): boolean {
+    if (!context.functionName) {
+      return false;
+    }
+
+    const callee = node.callee;
+    if (callee.type === AST_NODE_TYPES.Identifier) {
+      return callee.name === context.functionName;
+    }
+
+    return callee.type === AST_NODE_TYPES.MemberExpression &&
+           callee.object.type === AST_NODE_TYPES.ThisExpression &&
+           callee.property.type === AST_NODE_TYPES.Identifier &&
+           callee.property.name === context.functionName;
+  }
+
+  /**
+   * Visits all child nodes, increasing nesting for the named keys
+   */
+  private visitChildren(
+    node: TSESTree.Node,
+    nesting: number,
+    context: CognitiveContext,
+    nestedKeys: string[] = []
+  ): void {
+    for (const key in node) {
+      if (!Object.prototype.hasOwnProperty.call(node, key) || key === "parent") {
+        continue;
+      }
+
+      const childNesting = nestedKeys.includes(key) ? nesting + 1 : nesting;
+      const child = (node as any)[key];
+      if (Array.isArray(child)) {
+        child.forEach((item) => {
+          if (isASTNode(item)) {
+            this.visit(item, childNesting, context);
+          }
+        });
+      } else if (isASTNode(child)) {
+        this.visit(child, childNesting, context);
+      }
+    }
+  }
+}
+
+export const cognitiveComplexityCalculator = new CognitiveComplexityCalculator();
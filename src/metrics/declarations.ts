@@ -0,0 +1,195 @@
+import { AST_NODE_TYPES, TSESTree } from "@typescript-eslint/typescript-estree";
+import { traverseAST } from "../ast-utils.js";
+
+export interface ImportBinding {
+  source: string;
+  imported: string;  // exported name in the source module, 'default', or '*' for namespace imports
+}
+
+export interface HeritageReference {
+  name: string;
+  namespace?: string;  // set for qualified references such as ns.Base
+  relation: "extends" | "implements";
+}
+
+export interface ModuleDependency {
+  source: string;
+  typeOnly: boolean;  // `import type`, `export type … from`: erased from the emitted JavaScript
+}
+
+export interface TypeDeclaration {
+  name: string;
+  kind: "class" | "interface";
+  line: number;
+  abstract: boolean;
+  heritage: HeritageReference[];
+}
+
+export interface FileDeclarations {
+  types: Map<string, TypeDeclaration>;         // local name → declaration
+  imports: Map<string, ImportBinding>;         // local name → binding
+  exports: Map<string, string>;                // exported name → local name
+  reexports: Map<string, ImportBinding>;       // exported name → binding in another module
+  starExports: string[];                       // sources of `export * from`
+  dependencies: ModuleDependency[];            // every module this file imports (statically or dynamically) or re-exports
+}
+
+const toHeritageReference = (
+  expression: TSESTree.Node,
+  relation: HeritageReference["relation"]
+): HeritageReference | undefined => {
+  if (expression.type === AST_NODE_TYPES.Identifier) {
+    return { name: expression.name, relation };
+  }
+  if (expression.type === AST_NODE_TYPES.MemberExpression &&
+      expression.object.type === AST_NODE_TYPES.Identifier &&
+      expression.property.type === AST_NODE_TYPES.Identifier) {
+    return { name: expression.property.name, namespace: expression.object.name, relation };
+  }
+  return undefined;
+};
+
+/**
+ * The module loaded by a dynamic `import()` or a `require()` call, when given
+ * as a string literal or a template literal without expressions
+ */
+function dynamicModuleSource(node: TSESTree.Node): string | undefined {
+  const argument = node.type === AST_NODE_TYPES.ImportExpression
+    ? node.source
+    : node.type === AST_NODE_TYPES.CallExpression && node.callee.type === AST_NODE_TYPES.Identifier
+        && node.callee.name === "require" && node.arguments.length === 1
+      ? node.arguments[0]
+      : undefined;
+  if (argument?.type === AST_NODE_TYPES.Literal && typeof argument.value === "string") {
+    return argument.value;
+  }
+  if (argument?.type === AST_NODE_TYPES.TemplateLiteral && argument.expressions.length === 0) {
+    return argument.quasis[0].value.cooked ?? undefined;
+  }
+  return undefined;
+}
+
+const moduleExportName = (node: TSESTree.Identifier | TSESTree.StringLiteral): string =>
+  node.type === AST_NODE_TYPES.Identifier ? node.name : node.value;
+
+function collectTypeDeclaration(node: TSESTree.Node): TypeDeclaration | undefined {
+  if ((node.type === AST_NODE_TYPES.ClassDeclaration || node.type === AST_NODE_TYPES.ClassExpression) && node.id) {
+    const heritage: HeritageReference[] = [];
+    if (node.superClass) {
+      const reference = toHeritageReference(node.superClass, "extends");
+      if (reference) heritage.push(reference);
+    }
+    for (const impl of node.implements ?? []) {
+      const reference = toHeritageReference(impl.expression, "implements");
+      if (reference) heritage.push(reference);
+    }
+    return { name: node.id.name, kind: "class", line: node.loc.start.line, abstract: node.abstract, heritage };
+  }
+
+  if (node.type === AST_NODE_TYPES.TSInterfaceDeclaration) {
+    const heritage = (node.extends ?? [])
+      .map(ext => toHeritageReference(ext.expression, "extends"))
+      .filter((reference): reference is HeritageReference => reference !== undefined);
+    return { name: node.id.name, kind: "interface", line: node.loc.start.line, abstract: true, heritage };
+  }
+
+  return undefined;
+}
+
+/**
+ * Collects the classes, interfaces, imports and exports declared in a file
+ */
+export function collectDeclarations(ast: TSESTree.Program): FileDeclarations {
+  const declarations: FileDeclarations = {
+    types: new Map(),
+    imports: new Map(),
+    exports: new Map(),
+    reexports: new Map(),
+    starExports: [],
+    dependencies: []
+  };
+
+  traverseAST(ast, node => {
+    const type = collectTypeDeclaration(node);
+    if (type) {
+      declarations.types.set(type.name, type);
+    }
+    const dynamicSource = dynamicModuleSource(node);
+    if (dynamicSource !== undefined) {
+      declarations.dependencies.push({ source: dynamicSource, typeOnly: false });
+    }
+  });
+
+  for (const statement of ast.body) {
+    switch (statement.type) {
+      case AST_NODE_TYPES.ImportDeclaration: {
+        const source = statement.source.value;
+        declarations.dependencies.push({ source, typeOnly: statement.importKind === "type" });
+        for (const specifier of statement.specifiers) {
+          const imported = specifier.type === AST_NODE_TYPES.ImportDefaultSpecifier
+            ? "default"
+            : specifier.type === AST_NODE_TYPES.ImportNamespaceSpecifier
+              ? "*"
+              : moduleExportName(specifier.imported);
+          declarations.imports.set(specifier.local.name, { source, imported });
+        }
+        break;
+      }
+
+      case AST_NODE_TYPES.ExportNamedDeclaration:
+        if (statement.source) {
+          const source = statement.source.value;
+          declarations.dependencies.push({ source, typeOnly: statement.exportKind === "type" });
+          for (const specifier of statement.specifiers) {
+            declarations.reexports.set(moduleExportName(specifier.exported), {
+              source,
+              imported: moduleExportName(specifier.local)
+            });
+          }
+        } else if (statement.declaration) {
+          const declaration = statement.declaration;
+          if ("id" in declaration && declaration.id && declaration.id.type === AST_NODE_TYPES.Identifier) {
+            declarations.exports.set(declaration.id.name, declaration.id.name);
+          }
+        } else {
+          for (const specifier of statement.specifiers) {
+            declarations.exports.set(moduleExportName(specifier.exported), moduleExportName(specifier.local));
+          }
+        }
+        break;
+
+      case AST_NODE_TYPES.ExportDefaultDeclaration: {
+        const declaration = statement.declaration;
+        if (declaration.type === AST_NODE_TYPES.Identifier) {
+          declarations.exports.set("default", declaration.name);
+        } else if ("id" in declaration && declaration.id?.type === AST_NODE_TYPES.Identifier) {
+          declarations.exports.set("default", declaration.id.name);
+        }
+        break;
+      }
+
+      case AST_NODE_TYPES.TSImportEqualsDeclaration:
+        // import fs = require("fs")
+        if (statement.moduleReference.type === AST_NODE_TYPES.TSExternalModuleReference) {
+          declarations.dependencies.push({
+            source: statement.moduleReference.expression.value,
+            typeOnly: statement.importKind === "type"
+          });
+        }
+        break;
+
+      case AST_NODE_TYPES.ExportAllDeclaration: {
+        const source = statement.source.value;
+        declarations.dependencies.push({ source, typeOnly: statement.exportKind === "type" });
+        if (statement.exported) {
+          declarations.reexports.set(moduleExportName(statement.exported), { source, imported: "*" });
+        } else {
+          declarations.starExports.push(source);
+        }
+        break;
+      }
+    }
+  }
+
+  return declarations;
+}
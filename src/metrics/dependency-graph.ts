@@ -0,0 +1,254 @@
+import path from "path";
+import type { ModuleResolver } from "../module-resolution.js";
+import type { ProjectFile } from "./project-inheritance.js";
+
+export type DependencyGrouping = "file" | "folder";
+
+export interface DependencyNode {
+  id: string;                    // relative file path, or folder path ('.' for the root)
+  files: number;
+  afferentCoupling: number;      // Ca: modules depending on this one
+  efferentCoupling: number;      // Ce: modules this one depends on
+  instability: number;           // I = Ce / (Ca + Ce)
+  abstractness: number;          // A = abstract types / all types
+  distance: number;              // D = |A + I - 1|, distance from the main sequence
+  externalDependencies: string[];
+}
+
+export interface DependencyEdge {
+  from: string;
+  to: string;
+  typeOnly: boolean;  // every dependency behind the edge is type-only
+}
+
+export interface DependencyCycle {
+  modules: string[];  // members of the strongly connected component
+  path: string[];     // one concrete import loop, starting and ending at the same module
+}
+
+export interface DependencyGraph {
+  nodes: DependencyNode[];
+  edges: DependencyEdge[];
+  cycles: DependencyCycle[];
+}
+
+/**
+ * Finds strongly connected components with Tarjan's algorithm
+ */
+function findStronglyConnectedComponents(ids: string[], adjacency: Map<string, Set<string>>): string[][] {
+  let index = 0;
+  const indices = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+
+  const connect = (id: string) => {
+    indices.set(id, index);
+    lowLinks.set(id, index);
+    index++;
+    stack.push(id);
+    onStack.add(id);
+
+    for (const next of adjacency.get(id) ?? []) {
+      if (!indices.has(next)) {
+        connect(next);
+        lowLinks.set(id, Math.min(lowLinks.get(id)!, lowLinks.get(next)!));
+      } else if (onStack.has(next)) {
+        lowLinks.set(id, Math.min(lowLinks.get(id)!, indices.get(next)!));
+      }
+    }
+
+    if (lowLinks.get(id) === indices.get(id)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== id);
+      components.push(component);
+    }
+  };
+
+  for (const id of ids) {
+    if (!indices.has(id)) {
+      connect(id);
+    }
+  }
+
+  return components;
+}
+
+/**
+ * Finds the shortest import loop through a module, staying within its component
+ */
+function findCyclePath(start: string, members: Set<string>, adjacency: Map<string, Set<string>>): string[] {
+  const previous = new Map<string, string>();
+  const queue = [start];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const next of adjacency.get(current) ?? []) {
+      if (!members.has(next)) continue;
+      if (next === start) {
+        const loop = [start];
+        for (let node = current; node !== start; node = previous.get(node)!) {
+          loop.unshift(node);
+        }
+        loop.unshift(start);
+        return loop;
+      }
+      if (!previous.has(next)) {
+        previous.set(next, current);
+        queue.push(next);
+      }
+    }
+  }
+
+  return [start, start];
+}
+
+/**
+ * Builds the module dependency graph from import and re-export declarations and
+ * computes Martin's package metrics per file or per folder. Only dependencies
+ * resolved within the project count towards coupling; others are listed as external.
+ * Type-only dependencies count towards coupling but not towards cycles, since
+ * they are erased from the emitted JavaScript and cannot cause a loading cycle.
+ */
+export function buildDependencyGraph(
+  files: ProjectFile[],
+  resolve: ModuleResolver,
+  grouping: DependencyGrouping
+): DependencyGraph {
+  const filesByPath = new Map(files.map(file => [file.path, file]));
+  const groupOf = (file: ProjectFile) =>
+    grouping === "folder" ? path.dirname(file.relativePath) : file.relativePath;
+
+  const adjacency = new Map<string, Set<string>>();
+  const runtimeAdjacency = new Map<string, Set<string>>();
+  const external = new Map<string, Set<string>>();
+  const fileCounts = new Map<string, number>();
+  const typeCounts = new Map<string, { abstract: number; total: number }>();
+
+  for (const file of files) {
+    const id = groupOf(file);
+    fileCounts.set(id, (fileCounts.get(id) ?? 0) + 1);
+    if (!adjacency.has(id)) adjacency.set(id, new Set());
+    if (!runtimeAdjacency.has(id)) runtimeAdjacency.set(id, new Set());
+    if (!external.has(id)) external.set(id, new Set());
+
+    const counts = typeCounts.get(id) ?? { abstract: 0, total: 0 };
+    for (const type of file.declarations.types.values()) {
+      counts.total++;
+      if (type.abstract) counts.abstract++;
+    }
+    typeCounts.set(id, counts);
+
+    for (const dependency of file.declarations.dependencies) {
+      const target = resolve(file.path, dependency.source);
+      const targetFile = target ? filesByPath.get(target) : undefined;
+      if (!targetFile) {
+        external.get(id)!.add(dependency.source);
+        continue;
+      }
+      const targetId = groupOf(targetFile);
+      if (targetId !== id) {
+        adjacency.get(id)!.add(targetId);
+        if (!dependency.typeOnly) {
+          runtimeAdjacency.get(id)!.add(targetId);
+        }
+      }
+    }
+  }
+
+  const ids = [...adjacency.keys()].sort();
+  const afferent = new Map<string, number>();
+  for (const targets of adjacency.values()) {
+    for (const target of targets) {
+      afferent.set(target, (afferent.get(target) ?? 0) + 1);
+    }
+  }
+
+  const nodes: DependencyNode[] = ids.map(id => {
+    const ca = afferent.get(id) ?? 0;
+    const ce = adjacency.get(id)!.size;
+    const instability = ca + ce > 0 ? ce / (ca + ce) : 0;
+    const types = typeCounts.get(id)!;
+    const abstractness = types.total > 0 ? types.abstract / types.total : 0;
+    return {
+      id,
+      files: fileCounts.get(id)!,
+      afferentCoupling: ca,
+      efferentCoupling: ce,
+      instability,
+      abstractness,
+      distance: Math.abs(abstractness + instability - 1),
+      externalDependencies: [...external.get(id)!].sort()
+    };
+  });
+
+  const edges = ids.flatMap(from => [...adjacency.get(from)!].sort()
+    .map(to => ({ from, to, typeOnly: !runtimeAdjacency.get(from)!.has(to) })));
+
+  const cycles = findStronglyConnectedComponents(ids, runtimeAdjacency)
+    .filter(component => component.length > 1)
+    .map(component => {
+      const modules = component.sort();
+      return { modules, path: findCyclePath(modules[0], new Set(modules), runtimeAdjacency) };
+    })
+    .sort((a, b) => a.modules[0].localeCompare(b.modules[0]));
+
+  return { nodes, edges, cycles };
+}
+
+const inCycle = (graph: DependencyGraph) => {
+  const cycleEdges = new Set<string>();
+  for (const cycle of graph.cycles) {
+    const members = new Set(cycle.modules);
+    for (const edge of graph.edges) {
+      if (!edge.typeOnly && members.has(edge.from) && members.has(edge.to)) {
+        cycleEdges.add(`${edge.from}\u0000${edge.to}`);
+      }
+    }
+  }
+  return (edge: DependencyEdge) => cycleEdges.has(`${edge.from}\u0000${edge.to}`);
+};
+
+/**
+ * Renders the graph in Graphviz DOT syntax, with edges inside cycles in red
+ * and type-only edges dashed
+ */
+export function toDot(graph: DependencyGraph): string {
+  const isCycleEdge = inCycle(graph);
+  const lines = ['digraph dependencies {', '  rankdir=LR;', '  node [shape=box];'];
+  for (const node of graph.nodes) {
+    lines.push(`  ${JSON.stringify(node.id)} [label=${JSON.stringify(`${node.id}\nI=${node.instability.toFixed(2)} A=${node.abstractness.toFixed(2)}`)}];`);
+  }
+  for (const edge of graph.edges) {
+    const style = isCycleEdge(edge) ? ' [color=red]' : edge.typeOnly ? ' [style=dashed]' : '';
+    lines.push(`  ${JSON.stringify(edge.from)} -> ${JSON.stringify(edge.to)}${style};`);
+  }
+  lines.push('}');
+  return lines.join('\n');
+}
+
+/**
+ * Renders the graph as a Mermaid flowchart, with edges inside cycles in red
+ * and type-only edges dotted
+ */
+export function toMermaid(graph: DependencyGraph): string {
+  const isCycleEdge = inCycle(graph);
+  const nodeIds = new Map(graph.nodes.map((node, i) => [node.id, `m${i}`]));
+  const lines = ['graph LR'];
+  for (const node of graph.nodes) {
+    lines.push(`  ${nodeIds.get(node.id)}["${node.id.replace(/"/g, '#quot;')}"]`);
+  }
+  graph.edges.forEach((edge, i) => {
+    lines.push(`  ${nodeIds.get(edge.from)} ${edge.typeOnly ? '-.->' : '-->'} ${nodeIds.get(edge.to)}`);
+    if (isCycleEdge(edge)) {
+      lines.push(`  linkStyle ${i} stroke:red`);
+    }
+  });
+  return lines.join('\n');
+}
@@ -0,0 +1,195 @@
+import { AST_TOKEN_TYPES, TSESTree } from "@typescript-eslint/typescript-estree";
+
+export interface TokenizedFile {
+  path: string;
+  tokens: TSESTree.Token[];
+}
+
+export interface CloneFragment {
+  file: string;
+  startLine: number;
+  endLine: number;
+}
+
+export interface CloneGroup {
+  tokens: number;
+  lines: number;  // line span of the first fragment
+  fragments: CloneFragment[];
+}
+
+export interface FileDuplication {
+  path: string;
+  lineCount: number;        // lines containing at least one token
+  duplicatedLines: number;  // of those, lines inside a clone fragment
+  percentage: number;
+}
+
+export interface DuplicationReport {
+  groups: CloneGroup[];
+  files: FileDuplication[];
+}
+
+// Literal tokens, normalised together with identifiers for Type-2 clones
+const LITERAL_TOKEN_TYPES = new Set<string>([
+  AST_TOKEN_TYPES.String,
+  AST_TOKEN_TYPES.Numeric,
+  AST_TOKEN_TYPES.Template,
+  AST_TOKEN_TYPES.RegularExpression,
+  AST_TOKEN_TYPES.Boolean,
+  AST_TOKEN_TYPES.Null,
+  AST_TOKEN_TYPES.JSXText
+]);
+
+const IDENTIFIER_TOKEN_TYPES = new Set<string>([
+  AST_TOKEN_TYPES.Identifier,
+  AST_TOKEN_TYPES.JSXIdentifier,
+  AST_TOKEN_TYPES.PrivateIdentifier
+]);
+
+const HASH_BASE = 1_000_003;
+const HASH_MODULUS = 2_147_483_647;
+
+/**
+ * Maps a token to the text compared between fragments. Type-1 clones compare
+ * tokens verbatim; Type-2 clones also match when identifiers and literals differ.
+ */
+function tokenKey(token: TSESTree.Token, normalize: boolean): string {
+  if (normalize && IDENTIFIER_TOKEN_TYPES.has(token.type)) {
+    return "$id";
+  }
+  if (normalize && LITERAL_TOKEN_TYPES.has(token.type)) {
+    return "$literal";
+  }
+  return `${token.type}:${token.value}`;
+}
+
+/**
+ * Rolling hashes of every window of `size` consecutive token ids
+ */
+function windowHashes(ids: number[], size: number): number[] {
+  const hashes: number[] = [];
+  let power = 1;
+  for (let i = 1; i < size; i++) {
+    power = (power * HASH_BASE) % HASH_MODULUS;
+  }
+
+  let hash = 0;
+  for (let i = 0; i < ids.length; i++) {
+    if (i >= size) {
+      hash = (hash - ((ids[i - size] * power) % HASH_MODULUS) + HASH_MODULUS) % HASH_MODULUS;
+    }
+    hash = (hash * HASH_BASE + ids[i]) % HASH_MODULUS;
+    if (i >= size - 1) {
+      hashes.push(hash);
+    }
+  }
+  return hashes;
+}
+
+/**
+ * Finds Type-1 (exact) or Type-2 (renamed identifiers and literals) clones of
+ * at least minTokens tokens. Each window of minTokens tokens is matched against
+ * the first earlier occurrence of the same window, then extended token by token
+ * to the longest common run; fragments with the same token sequence form a group.
+ */
+export function findDuplicates(files: TokenizedFile[], minTokens: number, normalize: boolean): DuplicationReport {
+  const idsByKey = new Map<string, number>();
+  const tokenIds = files.map(file => file.tokens.map(token => {
+    const key = tokenKey(token, normalize);
+    let id = idsByKey.get(key);
+    if (id === undefined) {
+      id = idsByKey.size + 1;
+      idsByKey.set(key, id);
+    }
+    return id;
+  }));
+
+  const firstWindows = new Map<number, { file: number; index: number }>();
+  const groups = new Map<string, { tokens: number; fragments: Map<string, { file: number; start: number; end: number }> }>();
+
+  const sameWindow = (fileA: number, a: number, fileB: number, b: number) => {
+    for (let k = 0; k < minTokens; k++) {
+      if (tokenIds[fileA][a + k] !== tokenIds[fileB][b + k]) return false;
+    }
+    return true;
+  };
+
+  files.forEach((_, fileIndex) => {
+    const ids = tokenIds[fileIndex];
+    const hashes = windowHashes(ids, minTokens);
+
+    let i = 0;
+    while (i < hashes.length) {
+      const earlier = firstWindows.get(hashes[i]);
+      // Fragments may not overlap the fragment they duplicate
+      const usable = earlier &&
+        !(earlier.file === fileIndex && earlier.index + minTokens > i) &&
+        sameWindow(earlier.file, earlier.index, fileIndex, i);
+
+      if (!earlier || !usable) {
+        if (!earlier) firstWindows.set(hashes[i], { file: fileIndex, index: i });
+        i++;
+        continue;
+      }
+
+      const originalIds = tokenIds[earlier.file];
+      let length = minTokens;
+      while (i + length < ids.length &&
+             earlier.index + length < originalIds.length &&
+             !(earlier.file === fileIndex && earlier.index + length >= i) &&
+             originalIds[earlier.index + length] === ids[i + length]) {
+        length++;
+      }
+
+      const key = `${length}:${ids.slice(i, i + length).join(",")}`;
+      const group = groups.get(key) ?? { tokens: length, fragments: new Map() };
+      for (const fragment of [
+        { file: earlier.file, start: earlier.index, end: earlier.index + length - 1 },
+        { file: fileIndex, start: i, end: i + length - 1 }
+      ]) {
+        group.fragments.set(`${fragment.file}:${fragment.start}`, fragment);
+      }
+      groups.set(key, group);
+
+      // Later copies match against the first occurrence, so the duplicate's windows are not recorded
+      i += length;
+    }
+  });
+
+  const duplicatedLines = files.map(() => new Set<number>());
+  const toFragment = ({ file, start, end }: { file: number; start: number; end: number }): CloneFragment => {
+    const startLine = files[file].tokens[start].loc.start.line;
+    const endLine = files[file].tokens[end].loc.end.line;
+    for (let line = startLine; line <= endLine; line++) {
+      duplicatedLines[file].add(line);
+    }
+    return { file: files[file].path, startLine, endLine };
+  };
+
+  const cloneGroups: CloneGroup[] = [...groups.values()]
+    .map(group => {
+      const fragments = [...group.fragments.values()]
+        .sort((a, b) => a.file - b.file || a.start - b.start)
+        .map(toFragment);
+      return { tokens: group.tokens, lines: fragments[0].endLine - fragments[0].startLine + 1, fragments };
+    })
+    .sort((a, b) => b.tokens - a.tokens || a.fragments[0].file.localeCompare(b.fragments[0].file));
+
+  const fileDuplication = files.map((file, fileIndex) => {
+    const codeLines = new Set<number>();
+    for (const token of file.tokens) {
+      for (let line = token.loc.start.line; line <= token.loc.end.line; line++) {
+        codeLines.add(line);
+      }
+    }
+    const duplicated = [...duplicatedLines[fileIndex]].filter(line => codeLines.has(line)).length;
+    return {
+      path: file.path,
+      lineCount: codeLines.size,
+      duplicatedLines: duplicated,
+      percentage: codeLines.size > 0 ? (duplicated / codeLines.size) * 100 : 0
+    };
+  });
+
+  return { groups: cloneGroups, files: fileDuplication };
+}
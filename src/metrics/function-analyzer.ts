@@ -1,9 +1,13 @@
 import { AST_NODE_TYPES, TSESTree } from "@typescript-eslint/typescript-estree";
 import { isFunctionLike } from "../types/nodes.js";
-import type { MetricsCalculator, MetricsResult } from "../types/metrics.js";
+import type { FunctionMetrics, MaintainabilityVariant, MetricsCalculator, MetricsResult, Suppression } from "../types/metrics.js";
 import { halsteadMetricsCalculator } from "./halstead.js";
 import { cyclomaticComplexityCalculator } from "./complexity.js";
-import { calculateMaintainabilityIndex } from "./maintainability.js";
+import { cognitiveComplexityCalculator } from "./cognitive-complexity.js";
+import { calculateMaintainabilityIndex, DEFAULT_MAINTAINABILITY_VARIANT } from "./maintainability.js";
+import { functionStructureCalculator } from "./function-structure.js";
+import { LineCounter } from "./line-metrics.js";
+import { resolveSuppressions } from "./suppressions.js";
 
 type FunctionType = "function" | "method" | "arrow";
 
@@ -12,40 +16,65 @@ interface FunctionAnalysis {
   type: FunctionType;
   startLine: number;
   endLine: number;
-  metrics: MetricsResult;
+  metrics: MetricsResult<FunctionMetrics>;
+  suppressions?: Suppression[];
 }
 
-export class FunctionAnalyzer implements MetricsCalculator<TSESTree.Node> {
-  calculate(node: TSESTree.Node): MetricsResult {
-    const halsteadVolume = halsteadMetricsCalculator.process(node);
+interface FunctionContext {
+  name?: string;  // used to detect recursion when the node does not carry it
+  span?: TSESTree.SourceLocation;  // reported location, when wider than the node (a method around its function value)
+  lines?: LineCounter;  // line classification of the program; only physical lines are counted without it
+  maintainabilityVariant?: MaintainabilityVariant;
+}
+
+export class FunctionAnalyzer implements MetricsCalculator<TSESTree.Node, FunctionMetrics> {
+  calculate(
+    node: TSESTree.Node,
+    { name, span = node.loc, lines, maintainabilityVariant = DEFAULT_MAINTAINABILITY_VARIANT }: FunctionContext = {}
+  ): MetricsResult<FunctionMetrics> {
+    const halstead = halsteadMetricsCalculator.calculate(node);
     const complexity = cyclomaticComplexityCalculator.process(node);
+    const cognitiveComplexity = cognitiveComplexityCalculator.process(node, name);
     const loc = this.countLogicalLinesOfCode(node);
+    const structure = isFunctionLike(node)
+      ? functionStructureCalculator.calculate(node)
+      : { maxNestingDepth: 0, parameterCount: 0, exitPoints: 0 };
+    const lineMetrics = lines
+      ? lines.count(span.start.line, span.end.line)
+      : { physicalLines: span.end.line - span.start.line + 1, sourceLines: 0, commentLines: 0, blankLines: 0, commentDensity: 0 };
     const maintainabilityIndex = calculateMaintainabilityIndex(
-      halsteadVolume,
+      halstead.volume,
       complexity,
-      loc
+      loc,
+      { variant: maintainabilityVariant, commentPercentage: lineMetrics.commentDensity }
     );
 
     return {
       metrics: {
         linesOfCode: loc,
         cyclomaticComplexity: complexity,
+        cognitiveComplexity,
         maintainabilityIndex,
+        maintainabilityVariant,
         averageMethodComplexity: complexity,
         methodCount: 1,
         classCount: 0,
         depthOfInheritance: 0,
+        halstead,
+        ...lineMetrics,
+        ...structure,
       },
       details: {
-        halstead: { volume: halsteadVolume },
+        halstead,
         complexity,
         lloc: loc,
       },
     };
   }
 
-  analyzeFunctions(ast: TSESTree.Node): FunctionAnalysis[] {
+  analyzeFunctions(ast: TSESTree.Program, maintainabilityVariant?: MaintainabilityVariant): FunctionAnalysis[] {
     const functions: FunctionAnalysis[] = [];
+    const lines = new LineCounter(ast);
     const processedNodes = new Set<TSESTree.Node>();
 
     const processFunction = (node: TSESTree.Node) => {
@@ -59,12 +88,13 @@ export class FunctionAnalyzer implements MetricsCalculator<TSESTree.Node> {
         processedNodes.add(methodNode);
         processedNodes.add(methodNode.value);
 
+        const name = this.getFunctionName(methodNode);
         const analysis: FunctionAnalysis = {
-          name: this.getFunctionName(methodNode),
+          name,
           type: "method",
           startLine: methodNode.loc.start.line,
           endLine: methodNode.loc.end.line,
-          metrics: this.calculate(methodNode.value),
+          metrics: this.calculate(methodNode.value, { name, span: methodNode.loc, lines, maintainabilityVariant }),
         };
         functions.push(analysis);
         return;
@@ -73,19 +103,24 @@ export class FunctionAnalyzer implements MetricsCalculator<TSESTree.Node> {
       // Handle other function-like nodes
       if (isFunctionLike(node)) {
         processedNodes.add(node);
+        const name = this.getFunctionName(node);
         const analysis: FunctionAnalysis = {
-          name: this.getFunctionName(node),
+          name,
           type: this.getFunctionType(node),
           startLine: node.loc.start.line,
           endLine: node.loc.end.line,
-          metrics: this.calculate(node),
+          metrics: this.calculate(node, { name, lines, maintainabilityVariant }),
         };
         functions.push(analysis);
       }
     };
 
     this.traverseAST(ast, processFunction);
-    return functions.sort((a, b) => a.startLine - b.startLine);
+    functions.sort((a, b) => a.startLine - b.startLine);
+
+    const suppressions = resolveSuppressions(ast, functions).functions;
+    return functions.map((fn, index) =>
+      suppressions[index].length > 0 ? { ...fn, suppressions: suppressions[index] } : fn);
   }
 
   private traverseAST(
@@ -110,7 +145,10 @@ export class FunctionAnalyzer implements MetricsCalculator<TSESTree.Node> {
     }
   }
 
-  private getFunctionName(node: TSESTree.Node): string {
+  /**
+   * Name a function node is reported under in FileAnalysis.functions
+   */
+  getFunctionName(node: TSESTree.Node): string {
     switch (node.type) {
       case AST_NODE_TYPES.FunctionDeclaration:
         return (node as TSESTree.FunctionDeclaration).id?.name || "<anonymous>";
@@ -0,0 +1,164 @@
+import { AST_NODE_TYPES, AST_TOKEN_TYPES, TSESTree } from "@typescript-eslint/typescript-estree";
+import { traverseAST } from "../ast-utils.js";
+import { isFunctionLike } from "../types/nodes.js";
+import type { FunctionInfo } from "../types/metrics.js";
+import { functionAnalyzer } from "./function-analyzer.js";
+
+export interface LocatedFunction {
+  node: TSESTree.Node;
+  name: string;  // as reported in FileAnalysis.functions
+  containerPath: string[];  // enclosing namespaces and classes, outermost first
+  docAnchor: TSESTree.Node;  // declaration a leading JSDoc comment would precede
+}
+
+const entityName = (name: TSESTree.EntityName | TSESTree.Literal): string => {
+  switch (name.type) {
+    case AST_NODE_TYPES.Identifier:
+      return name.name;
+    case AST_NODE_TYPES.TSQualifiedName:
+      return `${entityName(name.left)}.${name.right.name}`;
+    case AST_NODE_TYPES.Literal:
+      return String(name.value);
+    default:
+      return "this";
+  }
+};
+
+/**
+ * Name a class or namespace contributes to the container path, if any
+ */
+function containerName(node: TSESTree.Node): string | undefined {
+  switch (node.type) {
+    case AST_NODE_TYPES.ClassDeclaration:
+    case AST_NODE_TYPES.ClassExpression:
+      return node.id?.name ?? "<anonymous class>";
+    case AST_NODE_TYPES.TSModuleDeclaration:
+      return entityName(node.id);
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Whether a JSDoc comment on `parent` documents `child`: the child is the
+ * value being declared (`const f = () => ...`, `export function f`, class
+ * fields and object properties holding functions)
+ */
+function documentsChild(parent: TSESTree.Node, child: TSESTree.Node): boolean {
+  switch (parent.type) {
+    case AST_NODE_TYPES.ExportNamedDeclaration:
+    case AST_NODE_TYPES.ExportDefaultDeclaration:
+      return parent.declaration === child;
+    case AST_NODE_TYPES.VariableDeclaration:
+      return parent.declarations.length === 1 && parent.declarations[0] === child;
+    case AST_NODE_TYPES.VariableDeclarator:
+      return parent.init === child;
+    case AST_NODE_TYPES.PropertyDefinition:
+    case AST_NODE_TYPES.Property:
+      return parent.value === child;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Finds the function nodes reported by FunctionAnalyzer.analyzeFunctions,
+ * sorted by start line
+ */
+export function locateFunctions(ast: TSESTree.Node): LocatedFunction[] {
+  const located: LocatedFunction[] = [];
+  const ancestors: TSESTree.Node[] = [];
+  const methodValues = new Set<TSESTree.Node>();
+
+  traverseAST(
+    ast,
+    (node) => {
+      if (node.type === AST_NODE_TYPES.MethodDefinition) {
+        methodValues.add(node.value);
+      }
+
+      if (node.type === AST_NODE_TYPES.MethodDefinition || (isFunctionLike(node) && !methodValues.has(node))) {
+        let docAnchor: TSESTree.Node = node;
+        for (let i = ancestors.length - 1; i >= 0 && documentsChild(ancestors[i], docAnchor); i--) {
+          docAnchor = ancestors[i];
+        }
+
+        located.push({
+          node,
+          name: functionAnalyzer.getFunctionName(node),
+          containerPath: ancestors.map(containerName).filter((name): name is string => name !== undefined),
+          docAnchor
+        });
+      }
+
+      ancestors.push(node);
+    },
+    () => {
+      ancestors.pop();
+    }
+  );
+
+  return located.sort((a, b) => a.node.loc.start.line - b.node.loc.start.line);
+}
+
+/**
+ * The located node of an analyzed function: the one with its name and line range
+ */
+export function findLocatedFunction(located: LocatedFunction[], fn: FunctionInfo): LocatedFunction {
+  const match = located.find(({ node, name }) =>
+    name === fn.name && node.loc.start.line === fn.startLine && node.loc.end.line === fn.endLine);
+  if (!match) {
+    throw new Error(`Cannot locate the source of ${fn.name} at lines ${fn.startLine}-${fn.endLine}`);
+  }
+  return match;
+}
+
+/**
+ * Source text of a range, extended back over the indentation of its first
+ * line so that it lines up with the lines that follow
+ */
+export function sourceText(code: string, range: TSESTree.Range): string {
+  const lineStart = code.lastIndexOf("\n", range[0] - 1) + 1;
+  const start = code.slice(lineStart, range[0]).trim() === "" ? lineStart : range[0];
+  return code.slice(start, range[1]);
+}
+
+/**
+ * The JSDoc block (`/** ... *\/`) immediately preceding a declaration, with
+ * nothing but whitespace in between
+ */
+export function findLeadingJSDoc(ast: TSESTree.Program, code: string, anchor: TSESTree.Node): string | undefined {
+  const comment = (ast.comments ?? [])
+    .filter(c => c.type === AST_TOKEN_TYPES.Block && c.range[1] <= anchor.range[0])
+    .at(-1);
+
+  if (!comment || !comment.value.startsWith("*") || code.slice(comment.range[1], anchor.range[0]).trim() !== "") {
+    return undefined;
+  }
+  return sourceText(code, comment.range);
+}
+
+/**
+ * Index of the function selected by name and/or a line inside it. With a
+ * line, the innermost matching function containing it is chosen; a name
+ * alone must be unambiguous.
+ */
+export function selectFunction(functions: FunctionInfo[], name?: string, line?: number): number {
+  const candidates = functions
+    .map((fn, index) => ({ fn, index }))
+    .filter(({ fn }) => name === undefined || fn.name === name)
+    .filter(({ fn }) => line === undefined || (fn.startLine <= line && fn.endLine >= line));
+
+  const target = [name && `named ${name}`, line && `containing line ${line}`].filter(Boolean).join(" ");
+  if (candidates.length === 0) {
+    throw new Error(`No function ${target}`);
+  }
+  if (line === undefined && candidates.length > 1) {
+    const ranges = candidates.map(({ fn }) => `${fn.startLine}-${fn.endLine}`).join(", ");
+    throw new Error(`Several functions ${target} (lines ${ranges}); pass a line to choose one`);
+  }
+
+  return candidates.reduce((innermost, candidate) =>
+    candidate.fn.endLine - candidate.fn.startLine < innermost.fn.endLine - innermost.fn.startLine ? candidate : innermost
+  ).index;
+}
@@ -0,0 +1,107 @@
+import { AST_NODE_TYPES, TSESTree } from "@typescript-eslint/typescript-estree";
+import { isASTNode } from "../ast-utils.js";
+
+export interface FunctionStructure {
+  maxNestingDepth: number;
+  parameterCount: number;
+  exitPoints: number;
+}
+
+/**
+ * Shape metrics of a single function, counted in its own body only (nested
+ * functions are measured separately):
+ * - maxNestingDepth: deepest nesting of if/switch/try/with and loop blocks;
+ *   `else if` continues its chain rather than nesting
+ * - parameterCount: names bound by the parameters, so `{ a, b }` counts 2
+ *   and `...rest` counts 1; a TypeScript `this` parameter is not counted
+ * - exitPoints: return and throw statements, or 1 for an expression-bodied arrow
+ */
+class FunctionStructureCalculator {
+  private static readonly NESTING_NODES = new Set<string>([
+    AST_NODE_TYPES.IfStatement,
+    AST_NODE_TYPES.SwitchStatement,
+    AST_NODE_TYPES.TryStatement,
+    AST_NODE_TYPES.WithStatement,
+    AST_NODE_TYPES.ForStatement,
+    AST_NODE_TYPES.ForInStatement,
+    AST_NODE_TYPES.ForOfStatement,
+    AST_NODE_TYPES.WhileStatement,
+    AST_NODE_TYPES.DoWhileStatement
+  ]);
+
+  private static readonly FUNCTION_NODES = new Set<string>([
+    AST_NODE_TYPES.FunctionDeclaration,
+    AST_NODE_TYPES.FunctionExpression,
+    AST_NODE_TYPES.ArrowFunctionExpression
+  ]);
+
+  calculate(node: TSESTree.FunctionLike): FunctionStructure {
+    const body = node.body;
+
+    let maxNestingDepth = 0;
+    let exitPoints = body && body.type !== AST_NODE_TYPES.BlockStatement ? 1 : 0;
+
+    const visit = (current: TSESTree.Node, depth: number) => {
+      if (FunctionStructureCalculator.FUNCTION_NODES.has(current.type)) {
+        return;
+      }
+
+      let childDepth = depth;
+      if (FunctionStructureCalculator.NESTING_NODES.has(current.type)) {
+        childDepth = depth + 1;
+        maxNestingDepth = Math.max(maxNestingDepth, childDepth);
+      }
+      if (current.type === AST_NODE_TYPES.ReturnStatement || current.type === AST_NODE_TYPES.ThrowStatement) {
+        exitPoints++;
+      }
+
+      for (const key in current) {
+        const child = (current as any)[key];
+        const children: unknown[] = Array.isArray(child) ? child : [child];
+        for (const item of children) {
+          if (isASTNode(item)) {
+            const continuesChain = current.type === AST_NODE_TYPES.IfStatement &&
+              key === "alternate" && item.type === AST_NODE_TYPES.IfStatement;
+            // The if of an `else if` sits at the depth of the chain it continues
+            visit(item, continuesChain ? depth : childDepth);
+          }
+        }
+      }
+    };
+
+    if (body) {
+      visit(body, 0);
+    }
+
+    return {
+      maxNestingDepth,
+      parameterCount: node.params.reduce((sum: number, param: TSESTree.Parameter) => sum + this.countBindings(param), 0),
+      exitPoints
+    };
+  }
+
+  private countBindings(node: TSESTree.Node | null): number {
+    if (!node) {
+      return 0;
+    }
+    switch (node.type) {
+      case AST_NODE_TYPES.Identifier:
+        return node.name === "this" ? 0 : 1;
+      case AST_NODE_TYPES.AssignmentPattern:
+        return this.countBindings(node.left);
+      case AST_NODE_TYPES.RestElement:
+        return this.countBindings(node.argument);
+      case AST_NODE_TYPES.TSParameterProperty:
+        return this.countBindings(node.parameter);
+      case AST_NODE_TYPES.ArrayPattern:
+        return node.elements.reduce((sum: number, element) => sum + this.countBindings(element), 0);
+      case AST_NODE_TYPES.ObjectPattern:
+        return node.properties.reduce((sum: number, property) =>
+          sum + (property.type === AST_NODE_TYPES.RestElement ? this.countBindings(property) : this.countBindings(property.value)), 0);
+      default:
+        return 0;
+    }
+  }
+}
+
+export const functionStructureCalculator = new FunctionStructureCalculator();
@@ -1,6 +1,6 @@
 import { AST_NODE_TYPES, TSESTree } from "@typescript-eslint/typescript-estree";
 import type { NodeMatcher } from "../types/nodes.js";
-import type { MetricsProcessor } from "../types/metrics.js";
+import type { HalsteadMetrics, MetricsProcessor } from "../types/metrics.js";
 import { traverseAST } from "../ast-utils.js";
 
 interface HalsteadData {
@@ -64,9 +64,13 @@ class HalsteadMetricsCalculator implements MetricsProcessor {
   };
 
   process(ast: TSESTree.Node): number {
+    return this.calculate(ast).volume;
+  }
+
+  calculate(ast: TSESTree.Node): HalsteadMetrics {
     this.resetData();
     this.gatherMetrics(ast);
-    return this.calculateVolume();
+    return this.calculateSuite();
   }
 
   private resetData(): void {
@@ -134,10 +138,34 @@ class HalsteadMetricsCalculator implements MetricsProcessor {
     this.data.operatorCount++;
   }
 
-  private calculateVolume(): number {
-    const vocabulary = this.data.operators.size + this.data.operands.size;
-    const length = this.data.operatorCount + this.data.operandCount;
-    return vocabulary > 0 ? length * Math.log2(vocabulary) : 0;
+  private calculateSuite(): HalsteadMetrics {
+    const n1 = this.data.operators.size;
+    const n2 = this.data.operands.size;
+    const N1 = this.data.operatorCount;
+    const N2 = this.data.operandCount;
+    const safeLog2 = (n: number) => (n > 0 ? Math.log2(n) : 0);
+
+    const vocabulary = n1 + n2;
+    const length = N1 + N2;
+    const calculatedLength = n1 * safeLog2(n1) + n2 * safeLog2(n2);
+    const volume = vocabulary > 0 ? length * Math.log2(vocabulary) : 0;
+    const difficulty = n2 > 0 ? (n1 / 2) * (N2 / n2) : 0;
+    const effort = difficulty * volume;
+
+    return {
+      distinctOperators: n1,
+      distinctOperands: n2,
+      totalOperators: N1,
+      totalOperands: N2,
+      vocabulary,
+      length,
+      calculatedLength,
+      volume,
+      difficulty,
+      effort,
+      time: effort / 18,
+      bugs: volume / 3000
+    };
   }
 }
 
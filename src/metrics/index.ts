@@ -1,9 +1,15 @@
-import { parse, AST_NODE_TYPES, TSESTree } from "@typescript-eslint/typescript-estree";
-import type { FileAnalysis, CodeMetrics } from "../types/metrics.js";
+import { parse, AST_NODE_TYPES, TSESTree, TSError } from "@typescript-eslint/typescript-estree";
+import type { AnalyzeOptions, FileAnalysis, CodeMetrics, MaintainabilityVariant, ParseDiagnostic } from "../types/metrics.js";
 import { functionAnalyzer } from "./function-analyzer.js";
 import { halsteadMetricsCalculator } from "./halstead.js";
 import { cyclomaticComplexityCalculator } from "./complexity.js";
-import { calculateMaintainabilityIndex } from "./maintainability.js";
+import { cognitiveComplexityCalculator } from "./cognitive-complexity.js";
+import { calculateMaintainabilityIndex, DEFAULT_MAINTAINABILITY_VARIANT } from "./maintainability.js";
+import { classMetricsCalculator } from "./class-metrics.js";
+import { toParseSource } from "./script-blocks.js";
+import { LineCounter } from "./line-metrics.js";
+import { resolveSuppressions } from "./suppressions.js";
+import { locateFunctions } from "./function-source.js";
 
 interface ParseOptions {
   loc: boolean;
@@ -16,6 +22,12 @@ interface ParseOptions {
   };
 }
 
+export interface ParsedFile {
+  ast?: TSESTree.Program;  // absent when the file does not parse
+  parseStatus: FileAnalysis['parseStatus'];
+  diagnostics: ParseDiagnostic[];
+}
+
 const DEFAULT_PARSE_OPTIONS: ParseOptions = {
   loc: true,
   range: true,
@@ -27,54 +39,158 @@ const DEFAULT_PARSE_OPTIONS: ParseOptions = {
   },
 };
 
+/**
+ * Revision of the metric computations. Bump it with every change that alters
+ * the analysis of unchanged input, so that cached analyses are recomputed.
+ */
+export const ANALYZER_REVISION = 3;
+
+// Upper bound on lines skipped while recovering a partial analysis
+const MAX_RECOVERY_ATTEMPTS = 20;
+
+/**
+ * Converts an error thrown by the parser into a diagnostic with a 1-based position
+ */
+export function toParseDiagnostic(error: unknown): ParseDiagnostic {
+  if (error instanceof TSError) {
+    return {
+      message: error.message,
+      line: error.location.start.line,
+      column: error.location.start.column + 1,
+    };
+  }
+  return { message: error instanceof Error ? error.message : String(error), line: 1, column: 1 };
+}
+
 class FileMetricsAnalyzer {
-  analyzeFile(code: string, filePath: string): FileAnalysis {
+  /**
+   * Analyzes a file. The file extension selects the parser dialect, and only the
+   * <script> blocks of .vue and .svelte files are analyzed. Syntax errors are
+   * reported as diagnostics with a 'failed' status and zeroed metrics, or, with
+   * options.partial, the offending lines are blanked out and the rest of the
+   * file is analyzed with a 'partial' status.
+   */
+  analyzeFile(code: string, filePath: string, options: AnalyzeOptions = {}): FileAnalysis {
+    const variant = options.maintainabilityVariant ?? DEFAULT_MAINTAINABILITY_VARIANT;
+    const { ast, parseStatus, diagnostics } = this.parseFile(code, filePath, options);
+    if (!ast) {
+      return { ...this.createEmptyAnalysis(variant), parseStatus, diagnostics };
+    }
+    return { ...this.analyzeAst(ast, variant), parseStatus, diagnostics };
+  }
+
+  /**
+   * Parses a file the way analyzeFile does (script blocks, dialect and, with
+   * options.partial, recovery from syntax errors), for the tools that work on
+   * the AST rather than on the metrics
+   */
+  parseFile(code: string, filePath: string, options: Pick<AnalyzeOptions, 'partial'> = {}): ParsedFile {
+    const source = toParseSource(code, filePath);
     try {
-      const ast = this.parseTypeScript(code);
-      const functions = functionAnalyzer.analyzeFunctions(ast);
-      
-      // Get raw file-level metrics
-      const fileComplexity = cyclomaticComplexityCalculator.process(ast);
-      const fileHalstead = halsteadMetricsCalculator.process(ast);
-      const fileLLOC = functionAnalyzer.countLogicalLines(ast);
-      
-      const maintainabilityIndex = calculateMaintainabilityIndex(
-        fileHalstead,
-        fileComplexity,
-        fileLLOC
-      );
-
-      // Calculate average method complexity from individual functions
-      const averageComplexity = functions.length > 0
-        ? functions.reduce((sum, fn) => sum + fn.metrics.metrics.cyclomaticComplexity, 0) / functions.length
-        : 0;
-
-      return {
-        fileMetrics: {
-          linesOfCode: fileLLOC,
-          cyclomaticComplexity: fileComplexity,
-          maintainabilityIndex,
-          averageMethodComplexity: averageComplexity,
-          methodCount: functions.length,
-          classCount: this.countClasses(ast),
-          depthOfInheritance: this.calculateInheritanceDepth(ast),
-        },
-        functions: functions.map(f => ({
-          name: f.name,
-          type: f.type,
-          startLine: f.startLine,
-          endLine: f.endLine,
-          metrics: f.metrics.metrics
-        })),
-      };
+      return { ast: this.parseTypeScript(source.code, source.parseFilePath), parseStatus: 'ok', diagnostics: [] };
     } catch (error) {
-      console.error(`Failed to parse ${filePath}:`, error);
-      return this.createEmptyAnalysis();
+      const diagnostic = toParseDiagnostic(error);
+      const recovered = options.partial
+        ? this.parseRecovering(source.code, source.parseFilePath, diagnostic)
+        : undefined;
+      if (!recovered) {
+        return { parseStatus: 'failed', diagnostics: [diagnostic] };
+      }
+      return { ast: recovered.ast, parseStatus: 'partial', diagnostics: recovered.diagnostics };
     }
   }
 
-  private parseTypeScript(code: string): TSESTree.Program {
-    return parse(code, DEFAULT_PARSE_OPTIONS);
+  /**
+   * Parses code as TypeScript. With a file path, its extension selects the
+   * dialect (e.g. JSX in .tsx and .jsx, plain JavaScript in .js); without one,
+   * the code is parsed as a .ts file.
+   */
+  parseTypeScript(code: string, filePath?: string): TSESTree.Program {
+    return parse(code, filePath ? { ...DEFAULT_PARSE_OPTIONS, filePath } : DEFAULT_PARSE_OPTIONS);
+  }
+
+  /**
+   * Repeatedly blanks the line of the latest syntax error, keeping line and
+   * column positions intact, until the code parses
+   */
+  private parseRecovering(
+    code: string,
+    filePath: string,
+    firstDiagnostic: ParseDiagnostic
+  ): { ast: TSESTree.Program; diagnostics: ParseDiagnostic[] } | undefined {
+    const lines = code.split('\n');
+    const diagnostics = [firstDiagnostic];
+    const blanked = new Set<number>();
+
+    for (let attempt = 0; attempt < MAX_RECOVERY_ATTEMPTS; attempt++) {
+      const line = diagnostics[diagnostics.length - 1].line;
+      // Errors past the end of the file or on an already blanked line cannot be skipped
+      if (line < 1 || line > lines.length || blanked.has(line)) {
+        return undefined;
+      }
+      blanked.add(line);
+      lines[line - 1] = lines[line - 1].replace(/\S/g, ' ');
+
+      try {
+        return { ast: this.parseTypeScript(lines.join('\n'), filePath), diagnostics };
+      } catch (error) {
+        diagnostics.push(toParseDiagnostic(error));
+      }
+    }
+
+    return undefined;
+  }
+
+  private analyzeAst(ast: TSESTree.Program, variant: MaintainabilityVariant): Omit<FileAnalysis, 'parseStatus' | 'diagnostics'> {
+    const functions = functionAnalyzer.analyzeFunctions(ast, variant);
+    
+    // Get raw file-level metrics
+    const fileComplexity = cyclomaticComplexityCalculator.process(ast);
+    const fileCognitiveComplexity = cognitiveComplexityCalculator.process(ast);
+    const fileHalstead = halsteadMetricsCalculator.calculate(ast);
+    const fileLLOC = functionAnalyzer.countLogicalLines(ast);
+    const fileLines = new LineCounter(ast).countProgram();
+    const fileSuppressions = resolveSuppressions(ast, functions).file;
+    const located = locateFunctions(ast);
+    
+    const maintainabilityIndex = calculateMaintainabilityIndex(
+      fileHalstead.volume,
+      fileComplexity,
+      fileLLOC,
+      { variant, commentPercentage: fileLines.commentDensity }
+    );
+
+    // Calculate average method complexity from individual functions
+    const averageComplexity = functions.length > 0
+      ? functions.reduce((sum, fn) => sum + fn.metrics.metrics.cyclomaticComplexity, 0) / functions.length
+      : 0;
+
+    return {
+      fileMetrics: {
+        linesOfCode: fileLLOC,
+        cyclomaticComplexity: fileComplexity,
+        cognitiveComplexity: fileCognitiveComplexity,
+        maintainabilityIndex,
+        maintainabilityVariant: variant,
+        averageMethodComplexity: averageComplexity,
+        methodCount: functions.length,
+        classCount: this.countClasses(ast),
+        depthOfInheritance: this.calculateInheritanceDepth(ast),
+        halstead: fileHalstead,
+        ...fileLines,
+      },
+      functions: functions.map((f, index) => ({
+        name: f.name,
+        type: f.type,
+        startLine: f.startLine,
+        endLine: f.endLine,
+        containerPath: located[index].containerPath,
+        metrics: f.metrics.metrics,
+        ...(f.suppressions && { suppressions: f.suppressions })
+      })),
+      classes: classMetricsCalculator.analyzeClasses(ast),
+      ...(fileSuppressions.length > 0 && { suppressions: fileSuppressions }),
+    };
   }
 
   private countClasses(ast: TSESTree.Node): number {
@@ -205,26 +321,56 @@ class FileMetricsAnalyzer {
     }
   }
 
-  private createEmptyAnalysis(): FileAnalysis {
+  private createEmptyAnalysis(variant: MaintainabilityVariant): Omit<FileAnalysis, 'parseStatus' | 'diagnostics'> {
     return {
       fileMetrics: {
         linesOfCode: 0,
         cyclomaticComplexity: 0,
+        cognitiveComplexity: 0,
         maintainabilityIndex: 0,
+        maintainabilityVariant: variant,
         classCount: 0,
         methodCount: 0,
         averageMethodComplexity: 0,
         depthOfInheritance: 0,
+        halstead: {
+          distinctOperators: 0,
+          distinctOperands: 0,
+          totalOperators: 0,
+          totalOperands: 0,
+          vocabulary: 0,
+          length: 0,
+          calculatedLength: 0,
+          volume: 0,
+          difficulty: 0,
+          effort: 0,
+          time: 0,
+          bugs: 0,
+        },
+        physicalLines: 0,
+        sourceLines: 0,
+        commentLines: 0,
+        blankLines: 0,
+        commentDensity: 0,
       },
       functions: [],
+      classes: [],
     };
   }
 }
 
 export const fileMetricsAnalyzer = new FileMetricsAnalyzer();
 
-export function analyzeFile(code: string, filePath: string): FileAnalysis {
-  return fileMetricsAnalyzer.analyzeFile(code, filePath);
+export function analyzeFile(code: string, filePath: string, options?: AnalyzeOptions): FileAnalysis {
+  return fileMetricsAnalyzer.analyzeFile(code, filePath, options);
+}
+
+export function parseFile(code: string, filePath: string, options?: Pick<AnalyzeOptions, 'partial'>): ParsedFile {
+  return fileMetricsAnalyzer.parseFile(code, filePath, options);
+}
+
+export function parseTypeScript(code: string, filePath?: string): TSESTree.Program {
+  return fileMetricsAnalyzer.parseTypeScript(code, filePath);
 }
 
 export function calculateMetrics(code: string, filePath: string): CodeMetrics {
@@ -0,0 +1,79 @@
+import { TSESTree } from "@typescript-eslint/typescript-estree";
+
+export interface LineMetrics {
+  physicalLines: number;
+  sourceLines: number;
+  commentLines: number;
+  blankLines: number;
+  commentDensity: number;
+}
+
+/**
+ * Classifies the physical lines of a parsed program from its tokens and
+ * comments (the program must be parsed with `tokens` and `comment`):
+ * - a source line holds at least part of a token
+ * - a comment line holds at least part of a comment; a line with code and a
+ *   trailing comment is both a source and a comment line
+ * - a blank line holds neither
+ * Comment density is the percentage of physical lines that are comment lines.
+ */
+export class LineCounter {
+  private readonly sourceLines = new Set<number>();
+  private readonly commentLines = new Set<number>();
+
+  constructor(private readonly program: TSESTree.Program) {
+    for (const token of program.tokens ?? []) {
+      // JSX whitespace between elements is not code
+      if (token.value.trim() !== "") {
+        this.mark(this.sourceLines, token.loc);
+      }
+    }
+    for (const comment of program.comments ?? []) {
+      this.mark(this.commentLines, comment.loc);
+    }
+  }
+
+  /**
+   * Line metrics of the whole program. A final line break does not start
+   * another line, and an empty program has no lines.
+   */
+  countProgram(): LineMetrics {
+    const end = this.program.loc.end;
+    if (this.program.range[1] === 0) {
+      return this.count(1, 0);
+    }
+    return this.count(1, end.column === 0 && end.line > 1 ? end.line - 1 : end.line);
+  }
+
+  /**
+   * Line metrics of the lines startLine..endLine (1-based, inclusive)
+   */
+  count(startLine: number, endLine: number): LineMetrics {
+    let sourceLines = 0;
+    let commentLines = 0;
+    let blankLines = 0;
+
+    for (let line = startLine; line <= endLine; line++) {
+      const isSource = this.sourceLines.has(line);
+      const isComment = this.commentLines.has(line);
+      sourceLines += isSource ? 1 : 0;
+      commentLines += isComment ? 1 : 0;
+      blankLines += isSource || isComment ? 0 : 1;
+    }
+
+    const physicalLines = Math.max(endLine - startLine + 1, 0);
+    return {
+      physicalLines,
+      sourceLines,
+      commentLines,
+      blankLines,
+      commentDensity: physicalLines > 0 ? (commentLines * 100) / physicalLines : 0
+    };
+  }
+
+  private mark(lines: Set<number>, loc: TSESTree.SourceLocation) {
+    for (let line = loc.start.line; line <= loc.end.line; line++) {
+      lines.add(line);
+    }
+  }
+}
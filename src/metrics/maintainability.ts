@@ -1,19 +1,41 @@
+import type { MaintainabilityVariant } from "../types/metrics.js";
+
+export const DEFAULT_MAINTAINABILITY_VARIANT: MaintainabilityVariant = "vs";
+
+export interface MaintainabilityOptions {
+  variant?: MaintainabilityVariant;
+  /**
+   * Percentage (0-100) of comment lines, used by the 'sei-comments' variant
+   */
+  commentPercentage?: number;
+}
+
 /**
  * Calculates the maintainability index for a code segment.
  * The maintainability index is a software metric that indicates how maintainable (easy to support and change)
- * the source code is. The range is 0 to 100 with higher values indicating better maintainability.
+ * the source code is. Higher values indicate better maintainability.
  *
- * Formula:
- * MI = max(0,(171 - 5.2 * ln(HV) - 0.23 * CC - 16.2 * ln(LOC))*100 / 171)
+ * All variants start from the SEI formula without comments:
+ * MIwoc = 171 - 5.2 * ln(HV) - 0.23 * CC - 16.2 * ln(LOC)
  * where:
  * - HV is the Halstead Volume
  * - CC is the Cyclomatic Complexity
  * - LOC is the count of source Lines Of Code
+ *
+ * Variants:
+ * - vs (default): Visual Studio, normalized to 0-100: max(0, MIwoc * 100 / 171)
+ * - sei: the original SEI scale (0-171): max(0, MIwoc)
+ * - sei-comments: SEI with the comment weight: max(0, MIwoc + MIcw), where
+ *   MIcw = 50 * sin(sqrt(2.4 * perCM)) and perCM is the comment percentage
+ *   converted to radians, as in common implementations, so that MIcw grows
+ *   with comments up to about 60% before flattening out
+ * - raw: MIwoc as is, which can be negative for very large or complex code
  */
 export function calculateMaintainabilityIndex(
   halsteadVolume: number,
   cyclomaticComplexity: number,
-  linesOfCode: number
+  linesOfCode: number,
+  { variant = DEFAULT_MAINTAINABILITY_VARIANT, commentPercentage = 0 }: MaintainabilityOptions = {}
 ): number {
   // Handle edge cases to avoid NaN or Infinity
   const safeLog = (n: number) => (n > 0 ? Math.log(n) : 0);
@@ -25,6 +47,17 @@ export function calculateMaintainabilityIndex(
     - (0.23 * cyclomaticComplexity) 
     - (16.2 * locLog);
 
-  // Normalize to 0-100 range
-  return Math.max(0, (rawMI * 100) / 171);
-}
\ No newline at end of file
+  switch (variant) {
+    case "raw":
+      return rawMI;
+    case "sei":
+      return Math.max(0, rawMI);
+    case "sei-comments": {
+      const perCM = (Math.max(commentPercentage, 0) * Math.PI) / 180;
+      return Math.max(0, rawMI + 50 * Math.sin(Math.sqrt(2.4 * perCM)));
+    }
+    case "vs":
+      // Normalize to 0-100 range
+      return Math.max(0, (rawMI * 100) / 171);
+  }
+}
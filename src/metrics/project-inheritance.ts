@@ -0,0 +1,180 @@
+import type { FileDeclarations, HeritageReference, TypeDeclaration } from "./declarations.js";
+import type { ModuleResolver } from "../module-resolution.js";
+
+export interface ProjectFile {
+  path: string;          // absolute path, as returned by the module resolver
+  relativePath: string;  // path shown in reports
+  declarations: FileDeclarations;
+}
+
+export interface TypeReference {
+  name: string;
+  file?: string;    // relative path of the declaring file, when resolved within the project
+  module?: string;  // import specifier, for types imported from outside the project
+}
+
+export interface ProjectTypeInheritance {
+  name: string;
+  kind: TypeDeclaration["kind"];
+  file: string;
+  line: number;
+  depthOfInheritance: number;
+  numberOfChildren: number;
+  parents: TypeReference[];
+  ancestors: TypeReference[];  // longest ancestor chain, nearest first
+}
+
+interface ResolvedParent {
+  id?: string;  // set when the parent is declared in the project
+  reference: TypeReference;
+}
+
+const typeId = (file: string, name: string) => `${file}#${name}`;
+
+/**
+ * Builds the class/interface hierarchy across all project files, following
+ * imports and re-exports, and reports depth of inheritance (DIT), number of
+ * children (NOC) and the ancestor chain of every type.
+ *
+ * DIT uses the same convention as the per-file metric: a type with no parents
+ * has depth 1, and a parent from outside the project counts as one level.
+ */
+export function analyzeProjectInheritance(files: ProjectFile[], resolve: ModuleResolver): ProjectTypeInheritance[] {
+  const filesByPath = new Map(files.map(file => [file.path, file]));
+
+  const resolveExport = (filePath: string, exportName: string, seen: Set<string>): string | undefined => {
+    const key = `${filePath}|${exportName}`;
+    const file = filesByPath.get(filePath);
+    if (!file || seen.has(key)) {
+      return undefined;
+    }
+    seen.add(key);
+
+    const local = file.declarations.exports.get(exportName);
+    if (local !== undefined) {
+      return resolveLocal(filePath, local, seen);
+    }
+
+    const reexport = file.declarations.reexports.get(exportName);
+    if (reexport) {
+      const target = resolve(filePath, reexport.source);
+      return target && reexport.imported !== "*" ? resolveExport(target, reexport.imported, seen) : undefined;
+    }
+
+    if (exportName === "default") {
+      return undefined;
+    }
+    for (const source of file.declarations.starExports) {
+      const target = resolve(filePath, source);
+      const resolved = target ? resolveExport(target, exportName, seen) : undefined;
+      if (resolved) {
+        return resolved;
+      }
+    }
+    return undefined;
+  };
+
+  const resolveLocal = (filePath: string, localName: string, seen: Set<string>): string | undefined => {
+    const file = filesByPath.get(filePath)!;
+    if (file.declarations.types.has(localName)) {
+      return typeId(filePath, localName);
+    }
+
+    const binding = file.declarations.imports.get(localName);
+    if (!binding || binding.imported === "*") {
+      return undefined;
+    }
+    const target = resolve(filePath, binding.source);
+    return target ? resolveExport(target, binding.imported, seen) : undefined;
+  };
+
+  const resolveHeritage = (file: ProjectFile, reference: HeritageReference): ResolvedParent => {
+    let id: string | undefined;
+    let module: string | undefined;
+
+    if (reference.namespace) {
+      const binding = file.declarations.imports.get(reference.namespace);
+      module = binding?.source;
+      if (binding?.imported === "*") {
+        const target = resolve(file.path, binding.source);
+        id = target ? resolveExport(target, reference.name, new Set()) : undefined;
+      }
+    } else {
+      module = file.declarations.imports.get(reference.name)?.source;
+      id = resolveLocal(file.path, reference.name, new Set());
+    }
+
+    if (id) {
+      const declaringFile = filesByPath.get(id.slice(0, id.lastIndexOf("#")))!;
+      return { id, reference: { name: id.slice(id.lastIndexOf("#") + 1), file: declaringFile.relativePath } };
+    }
+
+    const name = reference.namespace ? `${reference.namespace}.${reference.name}` : reference.name;
+    return { reference: module ? { name, module } : { name } };
+  };
+
+  // Build the graph
+  const declarations = new Map<string, { file: ProjectFile; type: TypeDeclaration }>();
+  const parents = new Map<string, ResolvedParent[]>();
+  const childCounts = new Map<string, number>();
+
+  for (const file of files) {
+    for (const type of file.declarations.types.values()) {
+      const id = typeId(file.path, type.name);
+      declarations.set(id, { file, type });
+      parents.set(id, type.heritage.map(reference => resolveHeritage(file, reference)));
+    }
+  }
+
+  for (const typeParents of parents.values()) {
+    for (const parent of typeParents) {
+      if (parent.id) {
+        childCounts.set(parent.id, (childCounts.get(parent.id) ?? 0) + 1);
+      }
+    }
+  }
+
+  // Longest ancestor chain per type, guarding against cyclic declarations
+  const chains = new Map<string, TypeReference[]>();
+  const inProgress = new Set<string>();
+
+  const ancestorChain = (id: string): TypeReference[] => {
+    const cached = chains.get(id);
+    if (cached) {
+      return cached;
+    }
+    if (inProgress.has(id)) {
+      return [];
+    }
+    inProgress.add(id);
+
+    let longest: TypeReference[] = [];
+    for (const parent of parents.get(id) ?? []) {
+      const chain = [parent.reference, ...(parent.id && declarations.has(parent.id) ? ancestorChain(parent.id) : [])];
+      if (chain.length > longest.length) {
+        longest = chain;
+      }
+    }
+
+    inProgress.delete(id);
+    chains.set(id, longest);
+    return longest;
+  };
+
+  const results: ProjectTypeInheritance[] = [];
+  for (const [id, { file, type }] of declarations) {
+    const ancestors = ancestorChain(id);
+    results.push({
+      name: type.name,
+      kind: type.kind,
+      file: file.relativePath,
+      line: type.line,
+      depthOfInheritance: ancestors.length + 1,
+      numberOfChildren: childCounts.get(id) ?? 0,
+      parents: (parents.get(id) ?? []).map(parent => parent.reference),
+      ancestors
+    });
+  }
+
+  return results.sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line);
+}
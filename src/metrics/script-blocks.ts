@@ -0,0 +1,59 @@
+import path from "path";
+
+// Single-file component formats whose logic lives in <script> blocks
+const SCRIPT_BLOCK_EXTENSIONS = new Set([".vue", ".svelte"]);
+
+const SCRIPT_BLOCK_PATTERN = /(<script\b[^>]*>)([\s\S]*?)<\/script\s*>/gi;
+
+export interface ParseSource {
+  code: string;
+  parseFilePath: string;  // file name that selects the parser dialect (TS or JS, with or without JSX)
+}
+
+/**
+ * Replaces everything except line breaks with spaces, so positions after it are unchanged
+ */
+const blank = (text: string) => text.replace(/[^\r\n]/g, " ");
+
+/**
+ * Keeps only the contents of the <script> blocks of a Vue or Svelte component.
+ * Everything else is blanked rather than removed, so reported lines and columns
+ * point at the original file. Several blocks (e.g. <script> and <script setup>)
+ * are analyzed together as one module.
+ */
+function extractScriptBlocks(code: string): { code: string; lang: string } {
+  let result = "";
+  let lastIndex = 0;
+  let lang = "js";
+
+  for (const match of code.matchAll(SCRIPT_BLOCK_PATTERN)) {
+    const [, openingTag, content] = match;
+    // TypeScript in any block selects the TypeScript dialect for the whole component
+    const langAttribute = /\blang\s*=\s*["']?([a-z]+)/i.exec(openingTag)?.[1].toLowerCase();
+    if (langAttribute === "ts" || langAttribute === "typescript") {
+      lang = lang === "tsx" ? lang : "ts";
+    } else if (langAttribute === "tsx") {
+      lang = "tsx";
+    }
+
+    result += blank(code.slice(lastIndex, match.index! + openingTag.length)) + content;
+    // The closing tag is blanked with the text that follows
+    lastIndex = match.index! + openingTag.length + content.length;
+  }
+
+  return { code: result + blank(code.slice(lastIndex)), lang };
+}
+
+/**
+ * Prepares file contents for parsing, extracting script blocks from
+ * single-file components
+ */
+export function toParseSource(code: string, filePath: string): ParseSource {
+  const extension = path.extname(filePath).toLowerCase();
+  if (!SCRIPT_BLOCK_EXTENSIONS.has(extension)) {
+    return { code, parseFilePath: filePath };
+  }
+
+  const extracted = extractScriptBlocks(code);
+  return { code: extracted.code, parseFilePath: `${filePath}.${extracted.lang}` };
+}
@@ -0,0 +1,136 @@
+import { AST_NODE_TYPES, TSESTree } from "@typescript-eslint/typescript-estree";
+import { traverseAST } from "../ast-utils.js";
+import type { SuppressibleMetric, Suppression } from "../types/metrics.js";
+
+export const SUPPRESSIBLE_METRICS: readonly SuppressibleMetric[] = ["complexity", "maintainability", "lloc", "inheritance"];
+
+interface FunctionSpan {
+  startLine: number;
+  endLine: number;
+}
+
+interface Directive {
+  nextFunction: boolean;  // qualytics-ignore-next-function, otherwise qualytics-disable
+  metrics: SuppressibleMetric[];
+  reason?: string;
+}
+
+const DIRECTIVE_PATTERN = /^qualytics-(ignore-next-function|disable)(?=\s|$)([\s\S]*)$/;
+
+/**
+ * Reads a suppression directive from a comment: the directive name, an
+ * optional list of metrics separated by spaces or commas, and an optional
+ * reason after `--`. A list naming no known metric makes the comment inert,
+ * so that a misspelt metric does not suppress everything.
+ */
+function parseDirective(comment: TSESTree.Comment): Directive | undefined {
+  const match = DIRECTIVE_PATTERN.exec(comment.value.replace(/^[\s*]+/, "").trimEnd());
+  if (!match) {
+    return undefined;
+  }
+
+  const [list, ...reasonParts] = match[2].split("--");
+  const names = list.split(/[\s,]+/).filter(name => name !== "");
+  const metrics = SUPPRESSIBLE_METRICS.filter(metric => names.includes(metric));
+  if (names.length > 0 && metrics.length === 0) {
+    return undefined;
+  }
+
+  const reason = reasonParts.join("--").replace(/\s+/g, " ").trim();
+  return {
+    nextFunction: match[1] === "ignore-next-function",
+    metrics: names.length > 0 ? metrics : [...SUPPRESSIBLE_METRICS],
+    ...(reason && { reason }),
+  };
+}
+
+/**
+ * Index of the innermost function spanning a line, or -1 when the line is
+ * outside every function
+ */
+function innermostFunction(functions: FunctionSpan[], line: number): number {
+  let innermost = -1;
+  functions.forEach((fn, index) => {
+    if (fn.startLine <= line && line <= fn.endLine
+      && (innermost < 0 || fn.endLine - fn.startLine <= functions[innermost].endLine - functions[innermost].startLine)) {
+      innermost = index;
+    }
+  });
+  return innermost;
+}
+
+/**
+ * The outermost node starting at an offset below the program: the statement,
+ * declaration or class member beginning there
+ */
+function outermostNodeAt(program: TSESTree.Program, offset: number): TSESTree.Node | undefined {
+  let outermost: TSESTree.Node | undefined;
+  traverseAST(program, node => {
+    if (node.type !== AST_NODE_TYPES.Program && node.range[0] === offset
+      && (!outermost || node.range[1] > outermost.range[1])) {
+      outermost = node;
+    }
+  });
+  return outermost;
+}
+
+/**
+ * Resolves the suppression comments of a program against its functions
+ * (sorted by start line, outer functions before the functions they contain):
+ * - `// qualytics-ignore-next-function` applies to the first function starting
+ *   within the statement, declaration or class member that follows it, so
+ *   that `export const f =` may be followed by the function on a later line
+ * - `qualytics-disable` (line or block comment) inside a function applies to
+ *   the innermost function containing it, and anywhere else to the file and
+ *   every function
+ * Returns the file-level suppressions and the suppressions of each function,
+ * index by index.
+ */
+export function resolveSuppressions(
+  program: TSESTree.Program,
+  functions: FunctionSpan[]
+): { file: Suppression[]; functions: Suppression[][] } {
+  const file: Suppression[] = [];
+  const perFunction: Suppression[][] = functions.map(() => []);
+  const tokens = program.tokens ?? [];
+
+  for (const comment of program.comments ?? []) {
+    const directive = parseDirective(comment);
+    if (!directive) {
+      continue;
+    }
+    const { metrics, reason } = directive;
+    const line = comment.loc.start.line;
+
+    if (directive.nextFunction) {
+      const next = tokens.find(token => token.range[0] >= comment.range[1]);
+      const statement = next && outermostNodeAt(program, next.range[0]);
+      const target = statement
+        ? functions.findIndex(fn => statement.loc.start.line <= fn.startLine && fn.startLine <= statement.loc.end.line)
+        : -1;
+      if (target >= 0) {
+        perFunction[target].push({ kind: "next-function", metrics, ...(reason && { reason }), line });
+      }
+      continue;
+    }
+
+    const enclosing = innermostFunction(functions, line);
+    if (enclosing >= 0) {
+      perFunction[enclosing].push({ kind: "function", metrics, ...(reason && { reason }), line });
+    } else {
+      file.push({ kind: "file", metrics, ...(reason && { reason }), line });
+    }
+  }
+
+  return { file, functions: perFunction.map(suppressions => [...suppressions, ...file]) };
+}
+
+/**
+ * Returns the first suppression excluding a metric, if any
+ */
+export function findSuppression(
+  suppressions: Suppression[] | undefined,
+  metric: SuppressibleMetric
+): Suppression | undefined {
+  return suppressions?.find(suppression => suppression.metrics.includes(metric));
+}
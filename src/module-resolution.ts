@@ -0,0 +1,191 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export interface PathMappings {
+  baseUrl: string;
+  paths: Record<string, string[]>;
+}
+
+export type ModuleResolver = (fromFile: string, specifier: string) => string | undefined;
+
+// Extensions tried, in order, when an import specifier omits them
+const RESOLVE_EXTENSIONS = ['.ts', '.tsx', '.d.ts', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+
+// NodeNext-style imports name the emitted file, e.g. './utils.js' for './utils.ts'
+const EMITTED_EXTENSIONS: Record<string, string[]> = {
+  '.js': ['.ts', '.tsx'],
+  '.jsx': ['.tsx'],
+  '.mjs': ['.mts'],
+  '.cjs': ['.cts']
+};
+
+/**
+ * Strips comments and trailing commas so tsconfig files (JSONC) can be parsed with JSON.parse
+ */
+function parseJsonc(text: string): any {
+  let result = '';
+  let inString = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      result += char;
+      if (char === '\\') {
+        result += text[++i] ?? '';
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+      result += char;
+    } else if (char === '/' && text[i + 1] === '/') {
+      while (i < text.length && text[i] !== '\n') i++;
+      result += '\n';
+    } else if (char === '/' && text[i + 1] === '*') {
+      i += 2;
+      while (i < text.length && !(text[i] === '*' && text[i + 1] === '/')) i++;
+      i++;
+    } else {
+      result += char;
+    }
+  }
+
+  return JSON.parse(result.replace(/,(\s*[}\]])/g, '$1'));
+}
+
+async function readCompilerOptions(configPath: string, seen: Set<string>): Promise<{ baseUrl?: string; paths?: Record<string, string[]>; pathsBase?: string }> {
+  if (seen.has(configPath)) {
+    return {};
+  }
+  seen.add(configPath);
+
+  const config = parseJsonc(await fs.readFile(configPath, 'utf-8'));
+  const configDir = path.dirname(configPath);
+  let inherited = {};
+
+  // Only relative extends are followed; package-based configs are ignored
+  if (typeof config.extends === 'string' && config.extends.startsWith('.')) {
+    const parentPath = path.resolve(configDir, config.extends);
+    const candidate = parentPath.endsWith('.json') ? parentPath : `${parentPath}.json`;
+    inherited = await readCompilerOptions(candidate, seen).catch(() => ({}));
+  }
+
+  const options = config.compilerOptions ?? {};
+  return {
+    ...inherited,
+    ...(options.baseUrl !== undefined ? { baseUrl: path.resolve(configDir, options.baseUrl) } : {}),
+    ...(options.paths !== undefined ? { paths: options.paths, pathsBase: configDir } : {})
+  };
+}
+
+/**
+ * Loads baseUrl and paths from a tsconfig file. When no path is given, looks for
+ * tsconfig.json in the directory and its parents. Returns undefined when there
+ * is no tsconfig or it defines no path mappings.
+ */
+export async function loadPathMappings(directory: string, tsconfigPath?: string): Promise<PathMappings | undefined> {
+  let configPath = tsconfigPath ? path.resolve(tsconfigPath) : undefined;
+
+  if (!configPath) {
+    let current = path.resolve(directory);
+    while (true) {
+      const candidate = path.join(current, 'tsconfig.json');
+      try {
+        await fs.access(candidate);
+        configPath = candidate;
+        break;
+      } catch (error) {
+        const parent = path.dirname(current);
+        if (parent === current) {
+          return undefined;
+        }
+        current = parent;
+      }
+    }
+  }
+
+  const options = await readCompilerOptions(configPath, new Set());
+  if (!options.paths) {
+    return undefined;
+  }
+
+  return {
+    // paths resolve against baseUrl when set, otherwise against the config that declared them
+    baseUrl: options.baseUrl ?? options.pathsBase ?? path.dirname(configPath),
+    paths: options.paths
+  };
+}
+
+/**
+ * Creates a resolver that maps import specifiers to files from the given set.
+ * Handles relative specifiers and tsconfig path mappings; bare package imports
+ * and files outside the set resolve to undefined.
+ */
+export function createModuleResolver(files: string[], mappings?: PathMappings): ModuleResolver {
+  const known = new Set(files.map(file => path.resolve(file)));
+
+  const resolveCandidate = (candidate: string): string | undefined => {
+    if (known.has(candidate)) {
+      return candidate;
+    }
+
+    const ext = path.extname(candidate);
+    for (const replacement of EMITTED_EXTENSIONS[ext] ?? []) {
+      const swapped = candidate.slice(0, -ext.length) + replacement;
+      if (known.has(swapped)) {
+        return swapped;
+      }
+    }
+
+    for (const extension of RESOLVE_EXTENSIONS) {
+      if (known.has(candidate + extension)) {
+        return candidate + extension;
+      }
+      const index = path.join(candidate, `index${extension}`);
+      if (known.has(index)) {
+        return index;
+      }
+    }
+
+    return undefined;
+  };
+
+  const resolveMapped = (specifier: string): string | undefined => {
+    if (!mappings) {
+      return undefined;
+    }
+
+    for (const [pattern, targets] of Object.entries(mappings.paths)) {
+      const star = pattern.indexOf('*');
+      let captured: string;
+      if (star === -1) {
+        if (pattern !== specifier) continue;
+        captured = '';
+      } else {
+        const prefix = pattern.slice(0, star);
+        const suffix = pattern.slice(star + 1);
+        if (!specifier.startsWith(prefix) || !specifier.endsWith(suffix) ||
+            specifier.length < prefix.length + suffix.length) {
+          continue;
+        }
+        captured = specifier.slice(prefix.length, specifier.length - suffix.length);
+      }
+
+      for (const target of targets) {
+        const resolved = resolveCandidate(path.resolve(mappings.baseUrl, target.replace('*', captured)));
+        if (resolved) {
+          return resolved;
+        }
+      }
+    }
+
+    return undefined;
+  };
+
+  return (fromFile: string, specifier: string) => {
+    if (specifier.startsWith('.') || path.isAbsolute(specifier)) {
+      return resolveCandidate(path.resolve(path.dirname(path.resolve(fromFile)), specifier));
+    }
+    return resolveMapped(specifier);
+  };
+}
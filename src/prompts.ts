@@ -0,0 +1,278 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  McpError,
+  type GetPromptResult,
+  type Prompt,
+} from "@modelcontextprotocol/sdk/types.js";
+import { findSuppression } from './metrics/suppressions.js';
+import { selectFunction } from './metrics/function-source.js';
+import type { FunctionInfo } from './types/metrics.js';
+import { handleAnalyzeDirectory, handleAnalyzeFile, handleAnalyzeHotspots } from './handlers.js';
+import { formatAnalysisTable } from './utils.js';
+import type { DirectoryAnalysisOutput, FileAnalysisOutput, HotspotsOutput } from './schemas.js';
+
+const DEFAULT_LIMIT = 5;
+const DEFAULT_MAX_COMPLEXITY = 10;
+
+const PROMPTS: Prompt[] = [
+  {
+    name: "review-hotspots",
+    title: "Review hotspots",
+    description: "Review the functions most in need of refactoring in a directory: ranked by git churn times complexity, or by complexity alone outside a git repository. Embeds the metrics and source of each function.",
+    arguments: [
+      { name: "directory", description: "Directory to review", required: true },
+      { name: "since", description: "Git history window, e.g. '6 months ago' (default: 12 months ago)" },
+      { name: "limit", description: `Number of functions to review (default ${DEFAULT_LIMIT})` }
+    ]
+  },
+  {
+    name: "explain-function-metrics",
+    title: "Explain function metrics",
+    description: "Explain what drives the metrics of one function and which changes would improve them. Embeds the function's metrics and source.",
+    arguments: [
+      { name: "file", description: "File containing the function", required: true },
+      { name: "function", description: "Function or method name", required: true },
+      { name: "line", description: "A line inside the function, to choose between functions with the same name" }
+    ]
+  },
+  {
+    name: "refactor-plan",
+    title: "Refactor plan",
+    description: "Plan a step-by-step refactoring of a file. Embeds the file analysis and the source of every function above the complexity target.",
+    arguments: [
+      { name: "file", description: "File to refactor", required: true },
+      { name: "max_complexity", description: `Target maximum cyclomatic complexity per function (default ${DEFAULT_MAX_COMPLEXITY})` }
+    ]
+  }
+];
+
+/**
+ * Lines startLine..endLine (1-based, inclusive) prefixed with their line numbers
+ */
+function sourceSlice(code: string, startLine: number, endLine: number) {
+  const width = String(endLine).length;
+  return code.split('\n')
+    .slice(startLine - 1, endLine)
+    .map((line, i) => `${String(startLine + i).padStart(width)} | ${line}`)
+    .join('\n');
+}
+
+function describeFunction(file: string, code: string, fn: FunctionInfo) {
+  const m = fn.metrics;
+  return [
+    `### ${fn.name} (${file}:${fn.startLine}-${fn.endLine})`,
+    '',
+    `Cyclomatic complexity ${m.cyclomaticComplexity}, cognitive complexity ${m.cognitiveComplexity}, LLOC ${m.linesOfCode}, maintainability index ${m.maintainabilityIndex.toFixed(2)} (${m.maintainabilityVariant}), Halstead difficulty ${m.halstead.difficulty.toFixed(2)}, estimated bugs ${m.halstead.bugs.toFixed(3)}`,
+    '',
+    '```' + (path.extname(file).slice(1) || 'ts'),
+    sourceSlice(code, fn.startLine, fn.endLine),
+    '```'
+  ].join('\n');
+}
+
+function requireArgument(args: Record<string, string> | undefined, name: string) {
+  const value = args?.[name];
+  if (!value) {
+    throw new McpError(ErrorCode.InvalidParams, `Missing required argument: ${name}`);
+  }
+  return value;
+}
+
+function numberArgument(args: Record<string, string> | undefined, name: string, defaultValue: number) {
+  const value = args?.[name];
+  if (value === undefined || value === '') {
+    return defaultValue;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid ${name}: ${value}`);
+  }
+  return parsed;
+}
+
+async function readSource(file: string) {
+  try {
+    return await fs.readFile(file, 'utf-8');
+  } catch (error) {
+    throw new McpError(ErrorCode.InvalidParams, `Cannot read ${file}: ${error}`);
+  }
+}
+
+/**
+ * Analyzes a file through the analyze file tool, so that the project
+ * configuration (e.g. the maintainability variant) applies as it does to tool calls
+ */
+async function analyzeSource(file: string): Promise<FileAnalysisOutput> {
+  const result = await handleAnalyzeFile({ filepath: file, format: 'json' });
+  if (result.isError || !result.structuredContent) {
+    throw new McpError(ErrorCode.InvalidParams, result.content.map(item => item.text).join('\n'));
+  }
+  return result.structuredContent as FileAnalysisOutput;
+}
+
+const userMessage = (description: string, text: string): GetPromptResult => ({
+  description,
+  messages: [{ role: "user", content: { type: "text", text } }]
+});
+
+/**
+ * Selects the functions to review: hotspots from the git history when the
+ * directory is in a repository and functions changed in the window, otherwise
+ * the most complex functions
+ */
+async function selectReviewTargets(directory: string, since: string | undefined, limit: number) {
+  const hotspots = await handleAnalyzeHotspots({ directory, since, limit, format: 'json' });
+  const history = hotspots.isError ? undefined : hotspots.structuredContent as HotspotsOutput | undefined;
+  if (history && history.functions.length > 0) {
+    const result = history;
+    return {
+      ranking: `Functions ranked by hotspot score (commits changing the function since ${result.since} times its cyclomatic complexity; ${result.commitsAnalyzed} commits analyzed).`,
+      // Hotspot paths are relative to the repository root
+      targets: result.functions.map(fn => ({ file: path.join(result.repository, fn.file), displayPath: fn.file, name: fn.name, startLine: fn.startLine, detail: `changed in ${fn.changeCount} commits` }))
+    };
+  }
+
+  const analysis = await handleAnalyzeDirectory({ directory, format: 'json' });
+  if (analysis.isError || !analysis.structuredContent) {
+    throw new McpError(ErrorCode.InvalidParams, analysis.content.map(item => item.text).join('\n'));
+  }
+  const report = analysis.structuredContent as DirectoryAnalysisOutput;
+  const functions = report.files
+    .flatMap(entry => entry.functions.map(fn => ({ entry, fn })))
+    .sort((a, b) => b.fn.metrics.cyclomaticComplexity - a.fn.metrics.cyclomaticComplexity ||
+      b.fn.metrics.cognitiveComplexity - a.fn.metrics.cognitiveComplexity)
+    .slice(0, limit);
+  return {
+    ranking: history
+      ? `Functions ranked by cyclomatic complexity (no function changed in the git history since ${history.since}).`
+      : 'Functions ranked by cyclomatic complexity (git history is not available for this directory).',
+    targets: functions.map(({ entry, fn }) => ({ file: path.join(directory, entry.path), displayPath: entry.path, name: fn.name, startLine: fn.startLine, detail: '' }))
+  };
+}
+
+async function reviewHotspots(args: Record<string, string> | undefined): Promise<GetPromptResult> {
+  const directory = requireArgument(args, 'directory');
+  const limit = numberArgument(args, 'limit', DEFAULT_LIMIT);
+  const { ranking, targets } = await selectReviewTargets(directory, args?.since || undefined, limit);
+
+  // Several targets often share a file, which is read and analyzed once
+  const sources = new Map<string, { code: string; functions: FunctionInfo[] }>();
+  const sections: string[] = [];
+  for (const target of targets) {
+    let source = sources.get(target.file);
+    if (!source) {
+      // Metrics and line ranges of the current version of the file
+      source = { code: await readSource(target.file), functions: (await analyzeSource(target.file)).functions };
+      sources.set(target.file, source);
+    }
+    const { code, functions } = source;
+    const fn = functions.find(f => f.name === target.name && f.startLine === target.startLine);
+    if (fn) {
+      sections.push(describeFunction(target.displayPath, code, fn) + (target.detail ? `\n\nHistory: ${target.detail}.` : ''));
+    }
+  }
+
+  const text = [
+    `Review the following functions from ${directory}, which are the most likely to benefit from refactoring.`,
+    '',
+    ranking,
+    '',
+    sections.length > 0 ? sections.join('\n\n') : 'No functions were found to review.',
+    '',
+    'For each function:',
+    '1. Explain what makes it hard to understand or change, citing the metrics and specific lines.',
+    '2. Propose concrete refactorings (e.g. extract function, replace conditional with lookup, early returns) and the metrics they should improve.',
+    '3. Flag risks such as missing tests or behaviour that a refactoring could change.',
+    'Finish with a prioritised list of the changes with the best payoff for their effort.'
+  ].join('\n');
+
+  return userMessage(`Hotspot review of ${directory}`, text);
+}
+
+async function explainFunctionMetrics(args: Record<string, string> | undefined): Promise<GetPromptResult> {
+  const file = requireArgument(args, 'file');
+  const name = requireArgument(args, 'function');
+  const line = args?.line ? numberArgument(args, 'line', 0) : undefined;
+
+  const code = await readSource(file);
+  const functions = (await analyzeSource(file)).functions;
+  let fn: FunctionInfo;
+  try {
+    // Same selection as the function source tool, which rejects a name shared by several functions without a line
+    fn = functions[selectFunction(functions, name, line)];
+  } catch (error) {
+    throw new McpError(ErrorCode.InvalidParams, `In ${file}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const text = [
+    `Explain the code metrics of the function ${fn.name} in ${file}.`,
+    '',
+    describeFunction(file, code, fn),
+    '',
+    'Full metrics:',
+    '```json',
+    JSON.stringify(fn.metrics, null, 2),
+    '```',
+    '',
+    'For each metric, explain in plain terms what it measures, which constructs in this source drive its value (cite line numbers), and whether the value is a concern. Then suggest the smallest changes that would most improve the metrics without changing behaviour.'
+  ].join('\n');
+
+  return userMessage(`Metrics of ${fn.name} in ${file}`, text);
+}
+
+async function refactorPlan(args: Record<string, string> | undefined): Promise<GetPromptResult> {
+  const file = requireArgument(args, 'file');
+  const maxComplexity = numberArgument(args, 'max_complexity', DEFAULT_MAX_COMPLEXITY);
+
+  const code = await readSource(file);
+  const analysis = await analyzeSource(file);
+  // Functions whose complexity is suppressed are known exceptions, not refactoring targets
+  const offenders = analysis.functions
+    .filter(fn => fn.metrics.cyclomaticComplexity > maxComplexity && !findSuppression(fn.suppressions, 'complexity'))
+    .sort((a, b) => b.metrics.cyclomaticComplexity - a.metrics.cyclomaticComplexity);
+
+  const text = [
+    `Write a step-by-step refactoring plan for ${file}. The target is a cyclomatic complexity of at most ${maxComplexity} per function, with a higher maintainability index and unchanged behaviour.`,
+    '',
+    '## Current analysis',
+    '',
+    formatAnalysisTable(analysis, path.basename(file)),
+    '',
+    `## Functions above the target (${offenders.length})`,
+    '',
+    offenders.length > 0
+      ? offenders.map(fn => describeFunction(file, code, fn)).join('\n\n')
+      : 'None: focus the plan on maintainability, duplication and naming.',
+    '',
+    'The plan should be a sequence of small, independently verifiable steps. For each step give the change, the functions it touches, the expected effect on the metrics, and how to check behaviour is preserved (existing tests or tests to add first).'
+  ].join('\n');
+
+  return userMessage(`Refactoring plan for ${file}`, text);
+}
+
+const PROMPT_HANDLERS: Record<string, (args: Record<string, string> | undefined) => Promise<GetPromptResult>> = {
+  "review-hotspots": reviewHotspots,
+  "explain-function-metrics": explainFunctionMetrics,
+  "refactor-plan": refactorPlan
+};
+
+/**
+ * Registers prompts that start a quality review with the relevant analysis
+ * and function source already embedded
+ */
+export function registerPrompts(server: Server) {
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({ prompts: PROMPTS }));
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const handler = PROMPT_HANDLERS[request.params.name];
+    if (!handler) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${request.params.name}`);
+    }
+    return handler(request.params.arguments);
+  });
+}
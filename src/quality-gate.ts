@@ -0,0 +1,190 @@
+import {
+  ANALYSIS_SCHEMA_VERSION,
+  QualityGateOutputSchema,
+  type DirectoryFileEntry,
+  type QualityGateThresholds,
+  type QualityGateViolation,
+  type QualityGateSuppressedViolation,
+  type QualityGateOutput
+} from './schemas.js';
+import type { MaintainabilityVariant, SuppressibleMetric, Suppression } from './types/metrics.js';
+import { findSuppression } from './metrics/suppressions.js';
+
+// Suppression comment metric covering each thresholded metric; parse errors cannot be suppressed
+const SUPPRESSIBLE_METRIC: Partial<Record<QualityGateViolation['metric'], SuppressibleMetric>> = {
+  cyclomaticComplexity: 'complexity',
+  maintainabilityIndex: 'maintainability',
+  linesOfCode: 'lloc',
+  depthOfInheritance: 'inheritance'
+};
+
+/**
+ * Evaluates directory analysis entries against quality gate thresholds.
+ * Complexity and LLOC are checked per function; maintainability and
+ * inheritance depth are checked per file. Files that failed to parse are
+ * skipped, or reported as violations when failOnParseError is set, and the
+ * maintainability of partially parsed files is not checked. The
+ * maintainability threshold is on the scale of the variant the entries were
+ * analyzed with. Breaches of metrics excluded by suppression comments are
+ * listed as suppressed and do not fail the gate.
+ */
+export function evaluateQualityGate(
+  directory: string,
+  entries: DirectoryFileEntry[],
+  thresholds: QualityGateThresholds,
+  maintainabilityVariant: MaintainabilityVariant,
+  failOnParseError = false,
+  thresholdsForFile: (file: string) => QualityGateThresholds = () => thresholds,
+  configPath?: string
+): QualityGateOutput {
+  const violations: QualityGateViolation[] = [];
+  const suppressed: QualityGateSuppressedViolation[] = [];
+
+  const report = (violation: QualityGateViolation, suppressions: Suppression[] | undefined) => {
+    const metric = SUPPRESSIBLE_METRIC[violation.metric];
+    const suppression = metric && findSuppression(suppressions, metric);
+    if (suppression) {
+      suppressed.push({ ...violation, reason: suppression.reason, suppressionLine: suppression.line });
+    } else {
+      violations.push(violation);
+    }
+  };
+
+  for (const entry of entries) {
+    if (failOnParseError && entry.diagnostics.length > 0) {
+      violations.push({
+        file: entry.path,
+        scope: 'file',
+        name: '-',
+        metric: 'parseError',
+        value: entry.diagnostics.length,
+        threshold: 0
+      });
+    }
+
+    // Zeroed metrics of unparsed files would otherwise breach the maintainability threshold
+    if (entry.parseStatus === 'failed') {
+      continue;
+    }
+
+    const m = entry.fileMetrics;
+    const fileThresholds = thresholdsForFile(entry.path);
+
+    // Blanked lines leave too little code for the index of a partial parse to mean anything
+    if (entry.parseStatus === 'ok' && m.maintainabilityIndex < fileThresholds.min_maintainability_index) {
+      report({
+        file: entry.path,
+        scope: 'file',
+        name: '-',
+        metric: 'maintainabilityIndex',
+        value: m.maintainabilityIndex,
+        threshold: fileThresholds.min_maintainability_index
+      }, entry.suppressions);
+    }
+
+    if (m.depthOfInheritance > fileThresholds.max_inheritance_depth) {
+      report({
+        file: entry.path,
+        scope: 'file',
+        name: '-',
+        metric: 'depthOfInheritance',
+        value: m.depthOfInheritance,
+        threshold: fileThresholds.max_inheritance_depth
+      }, entry.suppressions);
+    }
+
+    for (const fn of entry.functions) {
+      const location = {
+        file: entry.path,
+        scope: 'function' as const,
+        name: fn.name,
+        startLine: fn.startLine,
+        endLine: fn.endLine
+      };
+
+      if (fn.metrics.cyclomaticComplexity > fileThresholds.max_cyclomatic_complexity) {
+        report({
+          ...location,
+          metric: 'cyclomaticComplexity',
+          value: fn.metrics.cyclomaticComplexity,
+          threshold: fileThresholds.max_cyclomatic_complexity
+        }, fn.suppressions);
+      }
+
+      if (fn.metrics.linesOfCode > fileThresholds.max_lloc) {
+        report({
+          ...location,
+          metric: 'linesOfCode',
+          value: fn.metrics.linesOfCode,
+          threshold: fileThresholds.max_lloc
+        }, fn.suppressions);
+      }
+    }
+  }
+
+  return QualityGateOutputSchema.parse({
+    schemaVersion: ANALYSIS_SCHEMA_VERSION,
+    directory,
+    passed: violations.length === 0,
+    maintainabilityVariant,
+    configPath,
+    thresholds,
+    filesAnalyzed: entries.length,
+    functionsAnalyzed: entries.reduce((sum, entry) => sum + entry.functions.length, 0),
+    unparsedFiles: entries.filter(entry => entry.parseStatus === 'failed').map(entry => entry.path),
+    violations,
+    suppressed
+  });
+}
+
+/**
+ * Formats a quality gate result as a verdict line followed by a markdown table
+ * of violations, and one of suppressed breaches when there are any
+ */
+export function formatQualityGate(result: QualityGateOutput) {
+  const violatingFiles = new Set(result.violations.map(v => v.file)).size;
+  const verdict = result.passed
+    ? `Quality gate: PASSED (${result.filesAnalyzed} files, ${result.functionsAnalyzed} functions analyzed)`
+    : `Quality gate: FAILED (${result.violations.length} violations in ${violatingFiles} of ${result.filesAnalyzed} files)`;
+
+  const t = result.thresholds;
+  const lines = [
+    verdict,
+    '',
+    `Thresholds: max cyclomatic complexity ${t.max_cyclomatic_complexity}, min maintainability index ${t.min_maintainability_index} (${result.maintainabilityVariant}), max LLOC ${t.max_lloc}, max inheritance depth ${t.max_inheritance_depth}${result.configPath ? ` (configured in ${result.configPath})` : ''}`
+  ];
+
+  if (result.unparsedFiles.length > 0) {
+    lines.push('', `Not checked (parse errors): ${result.unparsedFiles.join(', ')}`);
+  }
+
+  if (result.violations.length > 0) {
+    lines.push(
+      '',
+      '| File | Scope | Name | Lines | Metric | Value | Threshold |',
+      '|------|-------|------|-------|--------|-------|-----------|'
+    );
+    for (const v of result.violations) {
+      const range = v.startLine !== undefined ? `${v.startLine}-${v.endLine}` : '-';
+      const value = Number.isInteger(v.value) ? String(v.value) : v.value.toFixed(2);
+      lines.push(`| ${v.file} | ${v.scope} | ${v.name} | ${range} | ${v.metric} | ${value} | ${v.threshold} |`);
+    }
+  }
+
+  if (result.suppressed.length > 0) {
+    lines.push(
+      '',
+      `Suppressed (${result.suppressed.length}, not failing the gate):`,
+      '',
+      '| File | Scope | Name | Lines | Metric | Value | Threshold | Suppressed At | Reason |',
+      '|------|-------|------|-------|--------|-------|-----------|---------------|--------|'
+    );
+    for (const v of result.suppressed) {
+      const range = v.startLine !== undefined ? `${v.startLine}-${v.endLine}` : '-';
+      const value = Number.isInteger(v.value) ? String(v.value) : v.value.toFixed(2);
+      lines.push(`| ${v.file} | ${v.scope} | ${v.name} | ${range} | ${v.metric} | ${value} | ${v.threshold} | line ${v.suppressionLine} | ${v.reason ?? '-'} |`);
+    }
+  }
+
+  return lines.join('\n');
+}
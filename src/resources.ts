@@ -0,0 +1,193 @@
+import { watch, type FSWatcher } from 'fs';
+import path from 'path';
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  ErrorCode,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { handleAnalyzeDirectory, handleAnalyzeFile } from './handlers.js';
+import { withProjectConfig } from './config.js';
+import { TypescriptAnalyzeDirectorySchema } from './schemas.js';
+import { isTypeScriptFile, loadIgnoreRules } from './utils.js';
+
+const FILE_URI_PREFIX = 'qualytics://file/';
+const REPORT_URI_PREFIX = 'qualytics://report/';
+
+// Editors often write a file several times in quick succession
+const UPDATE_DEBOUNCE_MS = 300;
+
+interface QualyticsResource {
+  kind: 'file' | 'report';
+  path: string;  // absolute
+}
+
+/**
+ * Parses a qualytics:// URI; paths are percent-encoded and resolved against
+ * the server's working directory when relative
+ */
+function parseResourceUri(uri: string): QualyticsResource {
+  const kind = uri.startsWith(FILE_URI_PREFIX) ? 'file' : uri.startsWith(REPORT_URI_PREFIX) ? 'report' : undefined;
+  if (!kind) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+  }
+  const encoded = uri.slice(kind === 'file' ? FILE_URI_PREFIX.length : REPORT_URI_PREFIX.length);
+  if (!encoded) {
+    throw new McpError(ErrorCode.InvalidParams, `Missing path in resource URI: ${uri}`);
+  }
+  return { kind, path: path.resolve(decodeURIComponent(encoded)) };
+}
+
+/**
+ * Returns whether a changed path (relative to the directory) may change a
+ * resource. Reports apply the file selection of the directory analysis: the
+ * configured extensions and ignore patterns, and the ignore rules that skip
+ * node_modules and hidden directories (including .git and the analysis cache).
+ */
+async function createChangeFilter(resource: QualyticsResource): Promise<(changed: string) => boolean> {
+  if (resource.kind === 'file') {
+    const basename = path.basename(resource.path);
+    return changed => changed === basename;
+  }
+  const { ignore_patterns, extensions } = TypescriptAnalyzeDirectorySchema.parse(
+    await withProjectConfig(TypescriptAnalyzeDirectorySchema, { directory: resource.path })
+  );
+  const ig = await loadIgnoreRules(resource.path, ignore_patterns);
+  return changed => isTypeScriptFile(changed, extensions) && !ig.ignores(changed.split(path.sep).join('/'));
+}
+
+/**
+ * Watches the files behind a resource, calling onChange (debounced) when a
+ * source file changes. Reports watch their directory tree; files watch their
+ * parent directory so that editors replacing the file are still seen.
+ */
+async function watchResource(resource: QualyticsResource, onChange: () => void): Promise<FSWatcher> {
+  let timer: NodeJS.Timeout | undefined;
+  const directory = resource.kind === 'report' ? resource.path : path.dirname(resource.path);
+  const relevant = await createChangeFilter(resource);
+
+  const watcher = watch(directory, { recursive: resource.kind === 'report' }, (_event, filename) => {
+    if (!filename || !relevant(filename.toString())) {
+      return;
+    }
+    clearTimeout(timer);
+    timer = setTimeout(onChange, UPDATE_DEBOUNCE_MS);
+  });
+  watcher.on('close', () => clearTimeout(timer));
+  return watcher;
+}
+
+/**
+ * Exposes file and directory analyses as MCP resources:
+ * - qualytics://file/{path}: the JSON analysis of a file (as typescript_analyze_file)
+ * - qualytics://report/{dir}: the JSON analysis of a directory (as typescript_analyze_directory)
+ *
+ * Resources that were read or subscribed to are listed. Subscribers receive
+ * notifications/resources/updated when a source file under the resource
+ * changes. Reports do not use the analysis cache, which would write into the
+ * watched directory.
+ */
+export function registerResources(server: Server) {
+  const subscriptions = new Map<string, FSWatcher>();
+  const readUris = new Set<string>();
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: [
+      {
+        uriTemplate: `${FILE_URI_PREFIX}{path}`,
+        name: "file-analysis",
+        title: "File analysis",
+        description: "Code metrics of a TypeScript or JavaScript file, with functions and classes. {path} is the percent-encoded file path.",
+        mimeType: "application/json"
+      },
+      {
+        uriTemplate: `${REPORT_URI_PREFIX}{dir}`,
+        name: "directory-report",
+        title: "Directory report",
+        description: "Code metrics of every source file in a directory, with totals. {dir} is the percent-encoded directory path.",
+        mimeType: "application/json"
+      }
+    ]
+  }));
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    const uris = new Set([...readUris, ...subscriptions.keys()]);
+    return {
+      resources: [...uris].map(uri => {
+        const resource = parseResourceUri(uri);
+        return {
+          uri,
+          name: resource.kind === 'report' ? `Report: ${resource.path}` : `File: ${resource.path}`,
+          mimeType: "application/json"
+        };
+      })
+    };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { uri } = request.params;
+    const resource = parseResourceUri(uri);
+    const result = resource.kind === 'report'
+      ? await handleAnalyzeDirectory({ directory: resource.path, format: 'json' })
+      : await handleAnalyzeFile({ filepath: resource.path, format: 'json' });
+
+    if (result.isError || !result.structuredContent) {
+      const message = result.content.map(item => item.text).join('\n');
+      throw new McpError(ErrorCode.InvalidParams, message);
+    }
+    readUris.add(uri);
+
+    return {
+      contents: [{
+        uri,
+        mimeType: "application/json",
+        text: JSON.stringify(result.structuredContent, null, 2)
+      }]
+    };
+  });
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const { uri } = request.params;
+    if (!subscriptions.has(uri)) {
+      try {
+        const watcher = await watchResource(parseResourceUri(uri), () => {
+          server.sendResourceUpdated({ uri }).catch(() => {
+            // The client disconnected; its watchers are closed with the server
+          });
+        });
+        // A concurrent subscription to the same URI may have completed first
+        if (subscriptions.has(uri)) {
+          watcher.close();
+        } else {
+          subscriptions.set(uri, watcher);
+        }
+      } catch (error) {
+        if (error instanceof McpError) {
+          throw error;
+        }
+        throw new McpError(ErrorCode.InvalidParams, `Cannot watch ${uri}: ${error}`);
+      }
+    }
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.get(request.params.uri)?.close();
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  // Chains a close handler set on the server before the resources were registered
+  const previousOnClose = server.onclose;
+  server.onclose = () => {
+    previousOnClose?.();
+    for (const watcher of subscriptions.values()) {
+      watcher.close();
+    }
+    subscriptions.clear();
+  };
+}
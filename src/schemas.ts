@@ -1,17 +1,60 @@
 import { z } from "zod";
 
+/**
+ * Version of the structured (JSON) analysis output. Bumped on the minor
+ * component for additive changes and on the major component for breaking ones.
+ */
+export const ANALYSIS_SCHEMA_VERSION = "1.19";
+
+const SourceExtensionsSchema = z.array(z.string())
+  .optional()
+  .describe("File extensions to analyze, e.g. ['.ts', '.vue']. Defaults to .ts, .tsx, .mts, .cts, .js, .jsx, .mjs, .cjs, .vue and .svelte; only the <script> blocks of .vue and .svelte files are analyzed.");
+
+const CacheEnabledSchema = z.boolean()
+  .default(false)
+  .describe("When true, file analyses are cached in .qualytics-cache/ inside the directory, keyed by file contents, and unchanged files are not re-analyzed (default false, as the cache writes into the analyzed directory)");
+
+const ClearCacheSchema = z.boolean()
+  .default(false)
+  .describe("When true, the cache is deleted before analyzing");
+
+export const MaintainabilityVariantSchema = z.enum(["vs", "sei", "sei-comments", "raw"])
+  .describe("Maintainability index formula: 'vs' (Visual Studio, 0-100), 'sei' (original SEI, 0-171), 'sei-comments' (SEI with the comment weight, 0-171 plus up to 50 for comments) or 'raw' (SEI formula without clamping, can be negative)");
+
+const MaintainabilityVariantInputSchema = MaintainabilityVariantSchema
+  .optional()
+  .describe("Maintainability index formula: 'vs' (default; Visual Studio, 0-100), 'sei' (original SEI, 0-171), 'sei-comments' (SEI with the comment weight) or 'raw' (SEI formula without clamping, can be negative)");
+
+const ConcurrencySchema = z.number().int().min(1)
+  .optional()
+  .describe("Number of worker threads analyzing files in parallel. Defaults to the number of CPU cores; 1 analyzes on the main thread.");
+
 export const TypescriptAnalyzeTextSchema = z.object({
   code: z.string().describe("TypeScript code to analyze"),
-  format: z.enum(["text", "table"])
+  fail_on_parse_error: z.boolean()
+    .default(false)
+    .describe("When true, the tool returns an error if the code cannot be parsed"),
+  partial_analysis: z.boolean()
+    .default(false)
+    .describe("When true, lines the parser rejects are skipped and the rest of the code is analyzed (reported with parseStatus 'partial')"),
+  maintainability_variant: MaintainabilityVariantInputSchema,
+  format: z.enum(["text", "table", "json"])
     .default("text")
-    .describe("Output format: 'text' for detailed readable output with descriptions, or 'table' for a concise markdown table format")
+    .describe("Output format: 'text' for detailed readable output with descriptions, 'table' for a concise markdown table format, or 'json' for the versioned structured analysis")
 });
 
 export const TypescriptAnalyzeFileSchema = z.object({
   filepath: z.string().describe("Absolute or relative path to the TypeScript file to analyze"),
-  format: z.enum(["text", "table"])
+  fail_on_parse_error: z.boolean()
+    .default(false)
+    .describe("When true, the tool returns an error if the file cannot be parsed"),
+  partial_analysis: z.boolean()
+    .default(false)
+    .describe("When true, lines the parser rejects are skipped and the rest of the file is analyzed (reported with parseStatus 'partial')"),
+  maintainability_variant: MaintainabilityVariantInputSchema,
+  format: z.enum(["text", "table", "json"])
     .default("text")
-    .describe("Output format: 'text' for detailed readable output with descriptions, or 'table' for a concise markdown table format"),
+    .describe("Output format: 'text' for detailed readable output with descriptions, 'table' for a concise markdown table format, or 'json' for the versioned structured analysis"),
   include_source: z.boolean()
     .default(false)
     .describe("When true, includes the source file as an embedded resource")
@@ -22,19 +65,733 @@ export const TypescriptAnalyzeDirectorySchema = z.object({
     .describe("Absolute or relative path to the directory containing TypeScript files. Will recursively search subdirectories, respecting .gitignore patterns and excluding node_modules and hidden directories."),
   include_functions: z.boolean()
     .default(true)
-    .describe("When true, includes detailed metrics for every function/method in each file. Set to false for a more concise file-level overview."),
+    .describe("When true, includes detailed metrics for every function/method and class in each file. Set to false for a more concise file-level overview."),
+  fail_on_parse_error: z.boolean()
+    .default(false)
+    .describe("When true, the tool returns an error if any file cannot be parsed"),
+  partial_analysis: z.boolean()
+    .default(false)
+    .describe("When true, lines the parser rejects are skipped and the rest of each file is analyzed (reported with parseStatus 'partial')"),
+  maintainability_variant: MaintainabilityVariantInputSchema,
+  cache: CacheEnabledSchema,
+  clear_cache: ClearCacheSchema,
+  concurrency: ConcurrencySchema,
+  ignore_patterns: z.array(z.string())
+    .default([])
+    .describe("Optional array of glob patterns to ignore (in addition to .gitignore and defaults). Example: ['test/**', '**/*.test.ts']"),
+  extensions: SourceExtensionsSchema,
+  format: z.enum(["table", "json"])
+    .default("table")
+    .describe("Output format: 'table' for a markdown table of files and functions, or 'json' for the versioned structured analysis")
+});
+
+export const QualityGateThresholdsSchema = z.object({
+  max_cyclomatic_complexity: z.number()
+    .default(10)
+    .describe("Maximum cyclomatic complexity allowed for any single function or method"),
+  min_maintainability_index: z.number()
+    .default(20)
+    .describe("Minimum maintainability index required for every file, on the scale of the selected maintainability_variant (0-100 for the default 'vs')"),
+  max_lloc: z.number()
+    .default(60)
+    .describe("Maximum logical lines of code allowed for any single function or method"),
+  max_inheritance_depth: z.number()
+    .default(5)
+    .describe("Maximum depth of inheritance allowed in any file")
+});
+
+export const TypescriptQualityGateSchema = z.object({
+  directory: z.string()
+    .describe("Absolute or relative path to the directory containing TypeScript files. Will recursively search subdirectories, respecting .gitignore patterns and excluding node_modules and hidden directories."),
+  ignore_patterns: z.array(z.string())
+    .default([])
+    .describe("Optional array of glob patterns to ignore (in addition to .gitignore and defaults). Example: ['test/**', '**/*.test.ts']"),
+  extensions: SourceExtensionsSchema,
+  fail_on_parse_error: z.boolean()
+    .default(false)
+    .describe("When true, files that cannot be parsed are reported as violations and fail the gate. Otherwise they are listed but skipped."),
+  partial_analysis: z.boolean()
+    .default(false)
+    .describe("When true, lines the parser rejects are skipped and the rest of each file is checked"),
+  maintainability_variant: MaintainabilityVariantInputSchema,
+  cache: CacheEnabledSchema,
+  clear_cache: ClearCacheSchema,
+  concurrency: ConcurrencySchema,
+  thresholds: QualityGateThresholdsSchema
+    .default({})
+    .describe("Thresholds to evaluate. Any threshold not supplied uses its default."),
+  format: z.enum(["table", "json"])
+    .default("table")
+    .describe("Output format: 'table' for a verdict followed by a markdown table of violations, or 'json' for the versioned structured result")
+});
+
+export const TypescriptSaveBaselineSchema = z.object({
+  directory: z.string()
+    .describe("Absolute or relative path to the directory containing TypeScript files. Will recursively search subdirectories, respecting .gitignore patterns and excluding node_modules and hidden directories."),
+  baseline_path: z.string()
+    .optional()
+    .describe("Path of the baseline JSON file to write. Defaults to '.qualytics-baseline.json' inside the directory."),
+  ignore_patterns: z.array(z.string())
+    .default([])
+    .describe("Optional array of glob patterns to ignore (in addition to .gitignore and defaults). Example: ['test/**', '**/*.test.ts']"),
+  extensions: SourceExtensionsSchema,
+  maintainability_variant: MaintainabilityVariantInputSchema
+    .describe("Maintainability index formula recorded in the baseline and used when comparing against it: 'vs' (default), 'sei', 'sei-comments' or 'raw'")
+});
+
+export const BaselineToleranceSchema = z.object({
+  cyclomatic_complexity: z.number()
+    .default(0)
+    .describe("Allowed increase in cyclomatic complexity before a change counts as a regression"),
+  maintainability_index: z.number()
+    .default(0)
+    .describe("Allowed decrease in maintainability index before a change counts as a regression"),
+  lloc: z.number()
+    .default(0)
+    .describe("Allowed increase in logical lines of code before a change counts as a regression")
+});
+
+export const TypescriptCompareBaselineSchema = z.object({
+  directory: z.string()
+    .describe("Absolute or relative path to the directory containing TypeScript files. Will recursively search subdirectories, respecting .gitignore patterns and excluding node_modules and hidden directories."),
+  baseline_path: z.string()
+    .optional()
+    .describe("Path of the baseline JSON file to compare against. Defaults to '.qualytics-baseline.json' inside the directory."),
+  ignore_patterns: z.array(z.string())
+    .default([])
+    .describe("Optional array of glob patterns to ignore (in addition to .gitignore and defaults). Example: ['test/**', '**/*.test.ts']"),
+  extensions: SourceExtensionsSchema,
+  tolerance: BaselineToleranceSchema
+    .default({})
+    .describe("Tolerances applied to per-file and per-function deltas before they are reported as regressions"),
+  format: z.enum(["table", "json"])
+    .default("table")
+    .describe("Output format: 'table' for a summary followed by a markdown table of changes, or 'json' for the versioned structured result")
+});
+
+export const TypescriptAnalyzeGitChangesSchema = z.object({
+  repository: z.string()
+    .describe("Absolute or relative path to a git repository (or any directory inside one)"),
+  base: z.string()
+    .default("HEAD")
+    .describe("Revision to compare from, e.g. 'main', 'HEAD~3' or a commit SHA"),
+  head: z.string()
+    .optional()
+    .describe("Revision to compare to. When omitted, the working tree (including staged and untracked files) is compared against base."),
+  include_unchanged_functions: z.boolean()
+    .default(false)
+    .describe("When true, also lists functions in changed files whose metrics did not change"),
+  extensions: SourceExtensionsSchema,
+  maintainability_variant: MaintainabilityVariantInputSchema,
+  format: z.enum(["table", "json"])
+    .default("table")
+    .describe("Output format: 'table' for a markdown table of before/after metrics, or 'json' for the versioned structured result")
+});
+
+export const TypescriptAnalyzeInheritanceSchema = z.object({
+  directory: z.string()
+    .describe("Absolute or relative path to the project directory. Will recursively search subdirectories, respecting .gitignore patterns and excluding node_modules and hidden directories."),
+  ignore_patterns: z.array(z.string())
+    .default([])
+    .describe("Optional array of glob patterns to ignore (in addition to .gitignore and defaults). Example: ['test/**', '**/*.test.ts']"),
+  fail_on_parse_error: z.boolean()
+    .default(false)
+    .describe("When true, the tool returns an error if any file cannot be parsed; otherwise such files are left out and listed in parseErrors"),
+  extensions: SourceExtensionsSchema,
+  tsconfig: z.string()
+    .optional()
+    .describe("Path to the tsconfig.json whose baseUrl/paths are used to resolve non-relative imports. Defaults to the nearest tsconfig.json in the directory or its parents."),
+  format: z.enum(["table", "json"])
+    .default("table")
+    .describe("Output format: 'table' for a markdown table of types, or 'json' for the versioned structured result")
+});
+
+export const TypescriptAnalyzeDependenciesSchema = z.object({
+  directory: z.string()
+    .describe("Absolute or relative path to the project directory. Will recursively search subdirectories, respecting .gitignore patterns and excluding node_modules and hidden directories."),
+  ignore_patterns: z.array(z.string())
+    .default([])
+    .describe("Optional array of glob patterns to ignore (in addition to .gitignore and defaults). Example: ['test/**', '**/*.test.ts']"),
+  fail_on_parse_error: z.boolean()
+    .default(false)
+    .describe("When true, the tool returns an error if any file cannot be parsed; otherwise such files are left out and listed in parseErrors"),
+  extensions: SourceExtensionsSchema,
+  tsconfig: z.string()
+    .optional()
+    .describe("Path to the tsconfig.json whose baseUrl/paths are used to resolve non-relative imports. Defaults to the nearest tsconfig.json in the directory or its parents."),
+  group_by: z.enum(["file", "folder"])
+    .default("file")
+    .describe("Report modules per file, or aggregate files into their containing folder"),
+  format: z.enum(["table", "json", "dot", "mermaid"])
+    .default("table")
+    .describe("Output format: 'table' for coupling metrics and cycles as markdown, 'json' for the versioned structured result, or 'dot'/'mermaid' for a renderable graph")
+});
+
+export const TypescriptAnalyzeHotspotsSchema = z.object({
+  directory: z.string()
+    .describe("Absolute or relative path to a directory inside a git repository. Only history of files under this directory is read."),
+  since: z.string()
+    .default("12 months ago")
+    .describe("Start of the history window, in any form git accepts for --since, e.g. '6 months ago' or '2024-01-01'"),
+  max_commits: z.number().int().positive()
+    .optional()
+    .describe("Optional cap on the number of most recent commits read within the window"),
+  ignore_patterns: z.array(z.string())
+    .default([])
+    .describe("Optional array of glob patterns to ignore (in addition to .gitignore and defaults). Example: ['test/**', '**/*.test.ts']"),
+  extensions: SourceExtensionsSchema,
+  limit: z.number().int().positive()
+    .default(20)
+    .describe("Maximum number of file hotspots and of function hotspots returned"),
+  maintainability_variant: MaintainabilityVariantInputSchema,
+  format: z.enum(["table", "json"])
+    .default("table")
+    .describe("Output format: 'table' for ranked markdown tables of files and functions, or 'json' for the versioned structured result")
+});
+
+export const TypescriptFindDuplicatesSchema = z.object({
+  directory: z.string()
+    .describe("Absolute or relative path to the directory to search for duplicated code. Will recursively search subdirectories, respecting .gitignore patterns and excluding node_modules and hidden directories."),
+  min_tokens: z.number().int().min(10)
+    .default(50)
+    .describe("Minimum length of a clone in tokens"),
+  normalize: z.boolean()
+    .default(true)
+    .describe("When true, identifiers and literals are normalised so renamed copies (Type-2 clones) are found. When false, only exact copies (Type-1 clones) are reported."),
   ignore_patterns: z.array(z.string())
     .default([])
-    .describe("Optional array of glob patterns to ignore (in addition to .gitignore and defaults). Example: ['test/**', '**/*.test.ts']")
+    .describe("Optional array of glob patterns to ignore (in addition to .gitignore and defaults). Example: ['test/**', '**/*.test.ts']"),
+  extensions: SourceExtensionsSchema,
+  format: z.enum(["table", "json"])
+    .default("table")
+    .describe("Output format: 'table' for clone groups and per-file duplication as markdown, or 'json' for the versioned structured result")
+});
+
+export const TypescriptGetFunctionSourceSchema = z.object({
+  filepath: z.string().describe("Absolute or relative path to the file containing the function"),
+  name: z.string().optional()
+    .describe("Function or method name as reported by the analysis tools, e.g. 'handleRequest' or '<arrow>'"),
+  line: z.number().int().min(1).optional()
+    .describe("A line inside the function. Selects the innermost function containing it, or the one with the given name when several share it. At least one of name and line is required."),
+  include_jsdoc: z.boolean()
+    .default(false)
+    .describe("When true, includes the JSDoc comment immediately preceding the function"),
+  partial_analysis: z.boolean()
+    .default(false)
+    .describe("When true, lines the parser rejects are skipped and functions in the rest of the file can be retrieved (reported with parseStatus 'partial')"),
+  maintainability_variant: MaintainabilityVariantInputSchema,
+  format: z.enum(["text", "json"])
+    .default("text")
+    .describe("Output format: 'text' for the location, metrics summary and source, or 'json' for the versioned structured result")
+});
+
+// Project configuration (.qualyticsrc.json, qualytics.config.ts or the "qualytics" key of package.json)
+const ConfigThresholdsSchema = QualityGateThresholdsSchema.partial().strict();
+
+export const QualyticsConfigSchema = z.object({
+  format: z.enum(["text", "table", "json"])
+    .optional()
+    .describe("Default output format, used by every tool that supports it when a call does not choose one"),
+  ignore_patterns: z.array(z.string())
+    .default([])
+    .describe("Glob patterns to ignore, relative to the configuration file as in .gitignore; added to the patterns of each call"),
+  extensions: z.array(z.string())
+    .optional()
+    .describe("File extensions to analyze when a call does not list them"),
+  maintainability_variant: MaintainabilityVariantSchema
+    .optional()
+    .describe("Maintainability index formula when a call does not choose one"),
+  thresholds: ConfigThresholdsSchema
+    .default({})
+    .describe("Quality gate thresholds; a call's thresholds take precedence"),
+  overrides: z.array(z.object({
+    files: z.array(z.string()).min(1)
+      .describe("Glob patterns selecting files, relative to the configuration file as in .gitignore"),
+    thresholds: ConfigThresholdsSchema
+      .describe("Thresholds for the matching files; later overrides take precedence over earlier ones")
+  }).strict())
+    .default([])
+    .describe("Per-path quality gate thresholds")
+}).strict();
+
+// Structured output schemas (advertised as tool outputSchema)
+export const HalsteadMetricsSchema = z.object({
+  distinctOperators: z.number().describe("Number of distinct operators (n1)"),
+  distinctOperands: z.number().describe("Number of distinct operands (n2)"),
+  totalOperators: z.number().describe("Total number of operators (N1)"),
+  totalOperands: z.number().describe("Total number of operands (N2)"),
+  vocabulary: z.number().describe("Program vocabulary: n1 + n2"),
+  length: z.number().describe("Program length: N1 + N2"),
+  calculatedLength: z.number().describe("Calculated program length: n1 * log2(n1) + n2 * log2(n2)"),
+  volume: z.number().describe("Volume: length * log2(vocabulary)"),
+  difficulty: z.number().describe("Difficulty: (n1 / 2) * (N2 / n2)"),
+  effort: z.number().describe("Effort: difficulty * volume"),
+  time: z.number().describe("Estimated time to program in seconds: effort / 18"),
+  bugs: z.number().describe("Estimated number of delivered bugs: volume / 3000")
+});
+
+export const CodeMetricsSchema = z.object({
+  linesOfCode: z.number().describe("Logical lines of code (LLOC)"),
+  cyclomaticComplexity: z.number().describe("Cyclomatic complexity"),
+  cognitiveComplexity: z.number().describe("Cognitive complexity (SonarSource specification)"),
+  maintainabilityIndex: z.number().describe("Maintainability index, on the scale of maintainabilityVariant"),
+  maintainabilityVariant: MaintainabilityVariantSchema,
+  depthOfInheritance: z.number().describe("Maximum depth of inheritance of classes and interfaces"),
+  classCount: z.number().describe("Number of classes"),
+  methodCount: z.number().describe("Number of functions and methods"),
+  averageMethodComplexity: z.number().describe("Average cyclomatic complexity per function or method"),
+  halstead: HalsteadMetricsSchema,
+  physicalLines: z.number().describe("Physical lines spanned, including blank and comment lines"),
+  sourceLines: z.number().describe("SLOC: lines holding code"),
+  commentLines: z.number().describe("Lines holding a comment, with or without code"),
+  blankLines: z.number().describe("Lines holding neither code nor comments"),
+  commentDensity: z.number().describe("Comment lines as a percentage of physical lines")
+});
+
+export const FunctionMetricsSchema = CodeMetricsSchema.extend({
+  maxNestingDepth: z.number().describe("Deepest nesting of if/switch/try/loop blocks in the function body (else-if does not nest)"),
+  parameterCount: z.number().describe("Number of parameter names, counting each destructured property and rest parameter"),
+  exitPoints: z.number().describe("Number of return and throw statements (1 for an expression-bodied arrow function)")
+});
+
+export const SuppressionSchema = z.object({
+  kind: z.enum(["next-function", "function", "file"])
+    .describe("'next-function' for qualytics-ignore-next-function, 'function' for qualytics-disable inside the function, 'file' for qualytics-disable outside every function"),
+  metrics: z.array(z.enum(["complexity", "maintainability", "lloc", "inheritance"]))
+    .describe("Metrics excluded from quality gate thresholds; complexity covers cyclomatic and cognitive complexity"),
+  reason: z.string().optional().describe("Text after '--' in the comment"),
+  line: z.number().describe("1-based line of the suppression comment")
+});
+
+export const FunctionInfoSchema = z.object({
+  name: z.string().describe("Function or method name, or <arrow>/<anonymous> when unnamed"),
+  type: z.enum(["function", "method", "arrow"]),
+  startLine: z.number().describe("1-based line where the function starts"),
+  endLine: z.number().describe("1-based line where the function ends"),
+  containerPath: z.array(z.string()).describe("Enclosing namespaces and classes, outermost first"),
+  metrics: FunctionMetricsSchema,
+  suppressions: z.array(SuppressionSchema).optional()
+    .describe("Suppression comments applying to the function, including file-level ones; omitted when there are none")
+});
+
+export const ClassMetricsSchema = z.object({
+  weightedMethodsPerClass: z.number().describe("WMC: sum of the cyclomatic complexity of all methods"),
+  lackOfCohesion: z.number().describe("LCOM4: number of connected groups of methods that share fields or call each other (1 is cohesive)"),
+  responseForClass: z.number().describe("RFC: number of methods plus distinct methods and functions they call"),
+  couplingBetweenObjects: z.number().describe("CBO: number of distinct other types referenced in heritage clauses, type annotations and new expressions, excluding built-ins"),
+  fieldCount: z.number().describe("Number of fields, including constructor parameter properties"),
+  methodCount: z.number().describe("Number of methods, accessors and function-valued properties, including the constructor"),
+  publicMemberCount: z.number(),
+  protectedMemberCount: z.number(),
+  privateMemberCount: z.number().describe("Members marked private or using #private names")
+});
+
+export const ClassInfoSchema = z.object({
+  name: z.string().describe("Class name, or <anonymous> for unnamed class expressions"),
+  startLine: z.number().describe("1-based line where the class starts"),
+  endLine: z.number().describe("1-based line where the class ends"),
+  metrics: ClassMetricsSchema
+});
+
+export const ParseDiagnosticSchema = z.object({
+  message: z.string(),
+  line: z.number().describe("1-based line"),
+  column: z.number().describe("1-based column")
+});
+
+export const ParseStatusSchema = z.enum(["ok", "partial", "failed"])
+  .describe("'failed' when the file could not be parsed (metrics are zero), 'partial' when rejected lines were skipped");
+
+export const FileAnalysisOutputSchema = z.object({
+  schemaVersion: z.literal(ANALYSIS_SCHEMA_VERSION),
+  file: z.string().describe("Analyzed file path, or 'input.ts' for analyzed text"),
+  parseStatus: ParseStatusSchema,
+  diagnostics: z.array(ParseDiagnosticSchema).describe("Syntax errors reported by the parser"),
+  suppressions: z.array(SuppressionSchema).optional()
+    .describe("File-level suppression comments; omitted when there are none"),
+  fileMetrics: CodeMetricsSchema,
+  functions: z.array(FunctionInfoSchema),
+  classes: z.array(ClassInfoSchema)
+});
+
+export const DirectoryFileEntrySchema = z.object({
+  path: z.string().describe("File path relative to the analyzed directory"),
+  parseStatus: ParseStatusSchema,
+  diagnostics: z.array(ParseDiagnosticSchema).describe("Syntax errors reported by the parser"),
+  suppressions: z.array(SuppressionSchema).optional()
+    .describe("File-level suppression comments; omitted when there are none"),
+  fileMetrics: CodeMetricsSchema,
+  functions: z.array(FunctionInfoSchema).describe("Function-level metrics (empty when include_functions is false)"),
+  classes: z.array(ClassInfoSchema).describe("Class-level metrics (empty when include_functions is false)")
+});
+
+export const DirectoryTotalsSchema = z.object({
+  fileCount: z.number(),
+  parseFailureCount: z.number().describe("Files that could not be parsed"),
+  partialParseCount: z.number().describe("Files analyzed after skipping rejected lines"),
+  functionCount: z.number(),
+  linesOfCode: z.number().describe("Sum of file LLOC"),
+  cyclomaticComplexity: z.number().describe("Sum of file cyclomatic complexity"),
+  cognitiveComplexity: z.number().describe("Sum of file cognitive complexity"),
+  averageMaintainabilityIndex: z.number().describe("Mean maintainability index of the files that parsed without errors"),
+  minMaintainabilityIndex: z.number().describe("Lowest maintainability index of the files that parsed without errors"),
+  classCount: z.number(),
+  methodCount: z.number(),
+  maxDepthOfInheritance: z.number()
+});
+
+export const CacheStatsSchema = z.object({
+  enabled: z.boolean(),
+  directory: z.string().describe("Cache location"),
+  cleared: z.boolean().describe("True when the cache was deleted before analyzing"),
+  hits: z.number().describe("Files whose analysis was read from the cache"),
+  misses: z.number().describe("Files analyzed and written to the cache (0 when disabled)"),
+  writeFailures: z.number().describe("Analyses that could not be written to the cache, e.g. on a read-only file system")
+});
+
+export const DirectoryAnalysisOutputSchema = z.object({
+  schemaVersion: z.literal(ANALYSIS_SCHEMA_VERSION),
+  directory: z.string().describe("Analyzed directory as supplied"),
+  maintainabilityVariant: MaintainabilityVariantSchema.describe("Formula of every maintainability index in the report, including the totals"),
+  files: z.array(DirectoryFileEntrySchema),
+  totals: DirectoryTotalsSchema,
+  cache: CacheStatsSchema
+});
+
+export const QualityGateViolationSchema = z.object({
+  file: z.string().describe("File path relative to the analyzed directory"),
+  scope: z.enum(["file", "function"]),
+  name: z.string().describe("Function or method name, or '-' for file-level violations"),
+  startLine: z.number().optional().describe("1-based start line of the violating function"),
+  endLine: z.number().optional().describe("1-based end line of the violating function"),
+  metric: z.enum(["cyclomaticComplexity", "maintainabilityIndex", "linesOfCode", "depthOfInheritance", "parseError"])
+    .describe("Breached metric; 'parseError' when the file could not be parsed (value is the number of diagnostics)"),
+  value: z.number(),
+  threshold: z.number()
+});
+
+export const QualityGateSuppressedViolationSchema = QualityGateViolationSchema.extend({
+  reason: z.string().optional().describe("Reason given in the suppression comment"),
+  suppressionLine: z.number().describe("1-based line of the suppression comment")
+});
+
+export const QualityGateOutputSchema = z.object({
+  schemaVersion: z.literal(ANALYSIS_SCHEMA_VERSION),
+  directory: z.string().describe("Analyzed directory as supplied"),
+  passed: z.boolean().describe("True when no thresholds were breached"),
+  maintainabilityVariant: MaintainabilityVariantSchema,
+  configPath: z.string().optional().describe("Project configuration file the thresholds were read from, if any"),
+  thresholds: z.object({
+    max_cyclomatic_complexity: z.number(),
+    min_maintainability_index: z.number(),
+    max_lloc: z.number(),
+    max_inheritance_depth: z.number()
+  }),
+  filesAnalyzed: z.number(),
+  functionsAnalyzed: z.number(),
+  unparsedFiles: z.array(z.string()).describe("Files that could not be parsed; their metrics were not checked"),
+  violations: z.array(QualityGateViolationSchema),
+  suppressed: z.array(QualityGateSuppressedViolationSchema)
+    .describe("Threshold breaches excluded by suppression comments; they do not fail the gate")
+});
+
+export const BaselineMetricsSchema = z.object({
+  cyclomaticComplexity: z.number(),
+  cognitiveComplexity: z.number(),
+  maintainabilityIndex: z.number(),
+  linesOfCode: z.number()
+});
+
+export const BaselineEntrySchema = z.object({
+  path: z.string().describe("File path relative to the analyzed directory"),
+  scope: z.enum(["file", "function"]),
+  name: z.string().describe("Function or method name, or '-' for files"),
+  startLine: z.number().optional(),
+  endLine: z.number().optional(),
+  parseStatus: ParseStatusSchema.optional()
+    .describe("Parse status of the file (of the containing file for functions); read as 'ok' in baselines saved before schema version 1.18"),
+  metrics: BaselineMetricsSchema
+});
+
+export const BaselineSchema = z.object({
+  schemaVersion: z.string().describe("Analysis schema version the baseline was saved with"),
+  createdAt: z.string().describe("ISO timestamp of when the baseline was saved"),
+  directory: z.string(),
+  maintainabilityVariant: MaintainabilityVariantSchema
+    .default("vs")
+    .describe("Formula of the recorded maintainability indexes; baselines saved before variants existed used 'vs'"),
+  entries: z.record(BaselineEntrySchema).describe("Entries keyed by path (files) or path::name (functions, the name qualified by the containerPath)")
+});
+
+export const BaselineChangeSchema = z.object({
+  key: z.string(),
+  path: z.string(),
+  scope: z.enum(["file", "function"]),
+  name: z.string(),
+  status: z.enum(["new", "removed", "regressed", "improved", "changed"]),
+  startLine: z.number().optional(),
+  endLine: z.number().optional(),
+  baseline: BaselineMetricsSchema.optional(),
+  current: BaselineMetricsSchema.optional(),
+  delta: BaselineMetricsSchema.optional().describe("current - baseline, for entries present in both")
+});
+
+export const BaselineUnparsedFileSchema = z.object({
+  path: z.string(),
+  baselineParseStatus: ParseStatusSchema.optional().describe("Absent when the file is not in the baseline"),
+  currentParseStatus: ParseStatusSchema.optional().describe("Absent when the file no longer exists"),
+  diagnostics: z.array(ParseDiagnosticSchema).describe("Current syntax errors of the file")
+});
+
+export const BaselineComparisonOutputSchema = z.object({
+  schemaVersion: z.literal(ANALYSIS_SCHEMA_VERSION),
+  directory: z.string(),
+  baselinePath: z.string(),
+  baselineCreatedAt: z.string(),
+  maintainabilityVariant: MaintainabilityVariantSchema.describe("Formula of the compared maintainability indexes, as recorded in the baseline"),
+  regressionCount: z.number(),
+  newFunctions: z.number(),
+  removedFunctions: z.number(),
+  changes: z.array(BaselineChangeSchema).describe("Entries that were added, removed or whose metrics changed"),
+  unparsedFiles: z.array(BaselineUnparsedFileSchema)
+    .describe("Files that failed to parse in the baseline or now; their metrics and functions are not compared")
+});
+
+export const GitFunctionChangeSchema = z.object({
+  name: z.string(),
+  status: z.enum(["added", "removed", "changed", "unchanged"]),
+  before: FunctionInfoSchema.optional().describe("Function at the base revision"),
+  after: FunctionInfoSchema.optional().describe("Function at the head revision or working tree")
+});
+
+export const GitFileChangeSchema = z.object({
+  path: z.string().describe("Path relative to the repository root at the head revision"),
+  previousPath: z.string().optional().describe("Path at the base revision, for renamed and copied files"),
+  status: z.enum(["added", "modified", "deleted", "renamed", "copied"]),
+  beforeParseStatus: ParseStatusSchema.optional().describe("Parse status at the base revision"),
+  afterParseStatus: ParseStatusSchema.optional().describe("Parse status at the head revision or working tree"),
+  beforeDiagnostics: z.array(ParseDiagnosticSchema).optional().describe("Syntax errors at the base revision; omitted when there are none"),
+  afterDiagnostics: z.array(ParseDiagnosticSchema).optional().describe("Syntax errors at the head revision or working tree; omitted when there are none"),
+  before: CodeMetricsSchema.optional().describe("File metrics at the base revision; omitted when the file did not parse"),
+  after: CodeMetricsSchema.optional().describe("File metrics at the head revision or working tree; omitted when the file did not parse"),
+  functions: z.array(GitFunctionChangeSchema).describe("Function changes; empty when the file did not parse at either revision")
+});
+
+export const GitChangesOutputSchema = z.object({
+  schemaVersion: z.literal(ANALYSIS_SCHEMA_VERSION),
+  repository: z.string().describe("Repository root"),
+  base: z.string(),
+  head: z.string().describe("Head revision, or 'working tree'"),
+  maintainabilityVariant: MaintainabilityVariantSchema.describe("Formula of the reported maintainability indexes"),
+  files: z.array(GitFileChangeSchema)
+});
+
+export const TypeReferenceSchema = z.object({
+  name: z.string(),
+  file: z.string().optional().describe("Relative path of the declaring file, when declared within the project"),
+  module: z.string().optional().describe("Import specifier, for types imported from outside the project")
+});
+
+export const ProjectTypeInheritanceSchema = z.object({
+  name: z.string(),
+  kind: z.enum(["class", "interface"]),
+  file: z.string().describe("File path relative to the analyzed directory"),
+  line: z.number(),
+  depthOfInheritance: z.number().describe("Depth of inheritance (DIT); a type without parents has depth 1"),
+  numberOfChildren: z.number().describe("Number of project types directly extending or implementing this type (NOC)"),
+  parents: z.array(TypeReferenceSchema).describe("Direct supertypes (extends and implements)"),
+  ancestors: z.array(TypeReferenceSchema).describe("Longest ancestor chain, nearest first")
+});
+
+export const ProjectParseErrorSchema = z.object({
+  path: z.string().describe("File path relative to the analyzed directory"),
+  diagnostics: z.array(ParseDiagnosticSchema).describe("Syntax errors reported by the parser")
+});
+
+export const ProjectInheritanceOutputSchema = z.object({
+  schemaVersion: z.literal(ANALYSIS_SCHEMA_VERSION),
+  directory: z.string(),
+  maxDepthOfInheritance: z.number(),
+  types: z.array(ProjectTypeInheritanceSchema),
+  parseErrors: z.array(ProjectParseErrorSchema).describe("Files left out of the analysis because they could not be parsed")
+});
+
+export const DependencyNodeSchema = z.object({
+  id: z.string().describe("Relative file path, or folder path ('.' for the root) when grouped by folder"),
+  files: z.number(),
+  afferentCoupling: z.number().describe("Ca: number of modules that depend on this module"),
+  efferentCoupling: z.number().describe("Ce: number of modules this module depends on"),
+  instability: z.number().describe("I = Ce / (Ca + Ce), 0 (stable) to 1 (unstable)"),
+  abstractness: z.number().describe("A = abstract classes and interfaces / all classes and interfaces"),
+  distance: z.number().describe("Distance from the main sequence: |A + I - 1|"),
+  externalDependencies: z.array(z.string()).describe("Import specifiers not resolved within the project")
+});
+
+export const DependencyGraphOutputSchema = z.object({
+  schemaVersion: z.literal(ANALYSIS_SCHEMA_VERSION),
+  directory: z.string(),
+  groupBy: z.enum(["file", "folder"]),
+  nodes: z.array(DependencyNodeSchema),
+  edges: z.array(z.object({
+    from: z.string(),
+    to: z.string(),
+    typeOnly: z.boolean().describe("Every dependency behind the edge is type-only (import type, export type … from); such edges are left out of cycle detection")
+  })),
+  cycles: z.array(z.object({
+    modules: z.array(z.string()).describe("Modules in the cycle (strongly connected component)"),
+    path: z.array(z.string()).describe("One concrete import loop, starting and ending at the same module")
+  })),
+  parseErrors: z.array(ProjectParseErrorSchema).describe("Files left out of the graph because they could not be parsed")
+});
+
+export const FileHotspotSchema = z.object({
+  path: z.string().describe("File path relative to the repository root"),
+  changeCount: z.number().describe("Number of commits in the window that modified the file"),
+  linesChanged: z.number().describe("Lines added plus lines removed in the window"),
+  cyclomaticComplexity: z.number().describe("Current cyclomatic complexity of the file"),
+  maintainabilityIndex: z.number().describe("Current maintainability index, on the scale of maintainabilityVariant"),
+  linesOfCode: z.number().describe("Current logical lines of code (LLOC)"),
+  score: z.number().describe("changeCount * cyclomaticComplexity")
+});
+
+export const FunctionHotspotSchema = z.object({
+  file: z.string().describe("File path relative to the repository root"),
+  name: z.string(),
+  startLine: z.number().describe("1-based start line in the current version"),
+  endLine: z.number().describe("1-based end line in the current version"),
+  changeCount: z.number().describe("Number of commits in the window whose changed lines fell within the function"),
+  cyclomaticComplexity: z.number().describe("Current cyclomatic complexity of the function"),
+  maintainabilityIndex: z.number().describe("Current maintainability index, on the scale of maintainabilityVariant"),
+  linesOfCode: z.number().describe("Current logical lines of code (LLOC)"),
+  score: z.number().describe("changeCount * cyclomaticComplexity")
+});
+
+export const UnparsedRevisionSchema = z.object({
+  path: z.string().describe("File path relative to the repository root"),
+  commit: z.string(),
+  diagnostics: z.array(ParseDiagnosticSchema).describe("Syntax errors of the file at that commit")
+});
+
+export const HotspotsOutputSchema = z.object({
+  schemaVersion: z.literal(ANALYSIS_SCHEMA_VERSION),
+  repository: z.string().describe("Repository root"),
+  directory: z.string().describe("Analyzed directory as supplied"),
+  since: z.string(),
+  commitsAnalyzed: z.number().describe("Commits in the window that touched the directory"),
+  maintainabilityVariant: MaintainabilityVariantSchema.describe("Formula of the reported maintainability indexes"),
+  files: z.array(FileHotspotSchema).describe("Changed files, highest score first"),
+  functions: z.array(FunctionHotspotSchema)
+    .describe("Changed functions of the returned files, highest score first; at most the 50 most recent commits of each file are counted"),
+  unparsedRevisions: z.array(UnparsedRevisionSchema)
+    .describe("File revisions skipped when counting function changes because they fail to parse")
+});
+
+export const CloneGroupSchema = z.object({
+  tokens: z.number().describe("Length of the cloned fragment in tokens"),
+  lines: z.number().describe("Line span of the first fragment"),
+  fragments: z.array(z.object({
+    file: z.string().describe("File path relative to the analyzed directory"),
+    startLine: z.number(),
+    endLine: z.number()
+  })).describe("Locations of every copy, at least two")
+});
+
+export const FileDuplicationSchema = z.object({
+  path: z.string().describe("File path relative to the analyzed directory"),
+  lineCount: z.number().describe("Lines containing code"),
+  duplicatedLines: z.number().describe("Lines of code inside a clone fragment"),
+  percentage: z.number().describe("duplicatedLines / lineCount * 100")
+});
+
+export const DuplicatesOutputSchema = z.object({
+  schemaVersion: z.literal(ANALYSIS_SCHEMA_VERSION),
+  directory: z.string(),
+  minTokens: z.number(),
+  normalized: z.boolean().describe("True when Type-2 clones (renamed identifiers and literals) are included"),
+  totals: z.object({
+    fileCount: z.number(),
+    groupCount: z.number(),
+    lineCount: z.number(),
+    duplicatedLines: z.number(),
+    percentage: z.number()
+  }),
+  groups: z.array(CloneGroupSchema).describe("Clone groups, longest first"),
+  files: z.array(FileDuplicationSchema).describe("Files containing duplicated code, highest percentage first"),
+  skippedFiles: z.array(z.string()).describe("Files that could not be parsed")
+});
+
+export const FunctionSourceOutputSchema = z.object({
+  schemaVersion: z.literal(ANALYSIS_SCHEMA_VERSION),
+  file: z.string(),
+  parseStatus: ParseStatusSchema.exclude(["failed"]),
+  diagnostics: z.array(ParseDiagnosticSchema).describe("Syntax errors skipped by a partial analysis"),
+  name: z.string(),
+  type: z.enum(["function", "method", "arrow"]),
+  startLine: z.number(),
+  endLine: z.number(),
+  containerPath: z.array(z.string()).describe("Enclosing namespaces and classes, outermost first"),
+  qualifiedName: z.string().describe("containerPath and name joined with '.'"),
+  source: z.string().describe("Exact source text of the function"),
+  jsdoc: z.string().optional().describe("Leading JSDoc comment, when requested and present"),
+  metrics: FunctionMetricsSchema,
+  suppressions: z.array(SuppressionSchema).optional()
+    .describe("Suppression comments applying to the function; omitted when there are none")
 });
 
 export enum ToolName {
   TYPESCRIPT_ANALYZE_TEXT = "typescript_analyze_text",
   TYPESCRIPT_ANALYZE_FILE = "typescript_analyze_file",
-  TYPESCRIPT_ANALYZE_DIRECTORY = "typescript_analyze_directory"
+  TYPESCRIPT_ANALYZE_DIRECTORY = "typescript_analyze_directory",
+  TYPESCRIPT_QUALITY_GATE = "typescript_quality_gate",
+  TYPESCRIPT_SAVE_BASELINE = "typescript_save_baseline",
+  TYPESCRIPT_COMPARE_BASELINE = "typescript_compare_baseline",
+  TYPESCRIPT_ANALYZE_GIT_CHANGES = "typescript_analyze_git_changes",
+  TYPESCRIPT_ANALYZE_INHERITANCE = "typescript_analyze_inheritance",
+  TYPESCRIPT_ANALYZE_DEPENDENCIES = "typescript_analyze_dependencies",
+  TYPESCRIPT_ANALYZE_HOTSPOTS = "typescript_analyze_hotspots",
+  TYPESCRIPT_FIND_DUPLICATES = "typescript_find_duplicates",
+  TYPESCRIPT_GET_FUNCTION_SOURCE = "typescript_get_function_source"
 }
 
 // Type exports
 export type TypescriptAnalyzeTextInput = z.infer<typeof TypescriptAnalyzeTextSchema>;
 export type TypescriptAnalyzeFileInput = z.infer<typeof TypescriptAnalyzeFileSchema>;
-export type TypescriptAnalyzeDirectoryInput = z.infer<typeof TypescriptAnalyzeDirectorySchema>;
\ No newline at end of file
+export type TypescriptAnalyzeDirectoryInput = z.infer<typeof TypescriptAnalyzeDirectorySchema>;
+export type TypescriptQualityGateInput = z.infer<typeof TypescriptQualityGateSchema>;
+export type QualityGateThresholds = z.infer<typeof QualityGateThresholdsSchema>;
+export type QualyticsConfig = z.infer<typeof QualyticsConfigSchema>;
+export type QualityGateViolation = z.infer<typeof QualityGateViolationSchema>;
+export type QualityGateSuppressedViolation = z.infer<typeof QualityGateSuppressedViolationSchema>;
+export type QualityGateOutput = z.infer<typeof QualityGateOutputSchema>;
+export type TypescriptSaveBaselineInput = z.infer<typeof TypescriptSaveBaselineSchema>;
+export type TypescriptCompareBaselineInput = z.infer<typeof TypescriptCompareBaselineSchema>;
+export type BaselineTolerance = z.infer<typeof BaselineToleranceSchema>;
+export type BaselineMetrics = z.infer<typeof BaselineMetricsSchema>;
+export type BaselineEntry = z.infer<typeof BaselineEntrySchema>;
+export type Baseline = z.infer<typeof BaselineSchema>;
+export type BaselineChange = z.infer<typeof BaselineChangeSchema>;
+export type BaselineUnparsedFile = z.infer<typeof BaselineUnparsedFileSchema>;
+export type BaselineComparisonOutput = z.infer<typeof BaselineComparisonOutputSchema>;
+export type TypescriptAnalyzeGitChangesInput = z.infer<typeof TypescriptAnalyzeGitChangesSchema>;
+export type GitFunctionChange = z.infer<typeof GitFunctionChangeSchema>;
+export type GitFileChange = z.infer<typeof GitFileChangeSchema>;
+export type GitChangesOutput = z.infer<typeof GitChangesOutputSchema>;
+export type TypescriptAnalyzeInheritanceInput = z.infer<typeof TypescriptAnalyzeInheritanceSchema>;
+export type ProjectParseError = z.infer<typeof ProjectParseErrorSchema>;
+export type ProjectInheritanceOutput = z.infer<typeof ProjectInheritanceOutputSchema>;
+export type TypescriptAnalyzeDependenciesInput = z.infer<typeof TypescriptAnalyzeDependenciesSchema>;
+export type DependencyGraphOutput = z.infer<typeof DependencyGraphOutputSchema>;
+export type TypescriptAnalyzeHotspotsInput = z.infer<typeof TypescriptAnalyzeHotspotsSchema>;
+export type FileHotspot = z.infer<typeof FileHotspotSchema>;
+export type FunctionHotspot = z.infer<typeof FunctionHotspotSchema>;
+export type UnparsedRevision = z.infer<typeof UnparsedRevisionSchema>;
+export type HotspotsOutput = z.infer<typeof HotspotsOutputSchema>;
+export type TypescriptFindDuplicatesInput = z.infer<typeof TypescriptFindDuplicatesSchema>;
+export type FunctionSourceOutput = z.infer<typeof FunctionSourceOutputSchema>;
+export type CacheStats = z.infer<typeof CacheStatsSchema>;
+export type DuplicatesOutput = z.infer<typeof DuplicatesOutputSchema>;
+export type ClassInfoOutput = z.infer<typeof ClassInfoSchema>;
+export type ParseDiagnosticOutput = z.infer<typeof ParseDiagnosticSchema>;
+export type FileAnalysisOutput = z.infer<typeof FileAnalysisOutputSchema>;
+export type DirectoryFileEntry = z.infer<typeof DirectoryFileEntrySchema>;
+export type DirectoryAnalysisOutput = z.infer<typeof DirectoryAnalysisOutputSchema>;
\ No newline at end of file
@@ -13,15 +13,38 @@ import {
   TypescriptAnalyzeTextSchema,
   TypescriptAnalyzeFileSchema,
   TypescriptAnalyzeDirectorySchema,
+  TypescriptQualityGateSchema,
+  TypescriptSaveBaselineSchema,
+  TypescriptCompareBaselineSchema,
+  TypescriptAnalyzeGitChangesSchema,
+  TypescriptAnalyzeInheritanceSchema,
+  TypescriptAnalyzeDependenciesSchema,
+  TypescriptAnalyzeHotspotsSchema,
+  FileAnalysisOutputSchema,
+  DirectoryAnalysisOutputSchema,
+  QualityGateOutputSchema,
+  BaselineComparisonOutputSchema,
+  GitChangesOutputSchema,
+  ProjectInheritanceOutputSchema,
+  DependencyGraphOutputSchema,
+  HotspotsOutputSchema,
+  TypescriptFindDuplicatesSchema,
+  DuplicatesOutputSchema,
+  TypescriptGetFunctionSourceSchema,
+  FunctionSourceOutputSchema,
   ToolName,
 } from "./schemas.js";
-import { handlers } from "./handlers.js";
+import { handlers, type ToolContext } from "./handlers.js";
+import { registerResources } from "./resources.js";
+import { registerPrompts } from "./prompts.js";
+import { serveHttp, MCP_ENDPOINT, SSE_ENDPOINT } from "./http.js";
 
 const ToolInputSchema = ToolSchema.shape.inputSchema;
 type ToolInput = typeof ToolInputSchema._type;
 
 function convertSchema(schema: any): ToolInput {
-  const converted = zodToJsonSchema(schema) as any;
+  // Inline nested schemas so the result is self-contained without $refs
+  const converted = zodToJsonSchema(schema, { $refStrategy: "none" }) as any;
   return {
     type: "object",
     properties: converted.properties || {},
@@ -34,17 +57,20 @@ export async function createServer() {
     {
       name: "mcp-qualytics",
       version: "0.1.4",
-      description: "TypeScript code quality metrics analyzer",
+      title: "MCP Qualytics - TypeScript code quality metrics analyzer",
     },
     {
       capabilities: {
-        tools: {
-          description: "Analyze TypeScript code quality metrics",
-        },
+        tools: {},
+        resources: { subscribe: true },
+        prompts: {},
       },
     }
   );
 
+  registerResources(server);
+  registerPrompts(server);
+
   server.setRequestHandler(ListToolsRequestSchema, async () => {
     const tools: Tool[] = [
       {
@@ -58,32 +84,40 @@ Key metrics include:
   * Expressions (calls, assignments, etc.)
   * TypeScript-specific elements (interfaces, type aliases, etc.)
 - Cyclomatic complexity
-- Maintainability index (0-100 scale)
+- Cognitive complexity (nesting-aware readability measure)
+- Maintainability index (0-100 with the default 'vs' variant; maintainability_variant selects the SEI scales)
+- Halstead metrics (volume, difficulty, effort, estimated time and bugs)
 - Function-level metrics
 - Class metrics including inheritance depth
 
-Output formats: text (detailed) or markdown table (concise).
+Output formats: text (detailed), markdown table (concise) or json (versioned structured analysis, also returned as structured content).
 
 Can analyze complete files or individual functions.`,
         inputSchema: convertSchema(TypescriptAnalyzeTextSchema),
+        outputSchema: convertSchema(FileAnalysisOutputSchema),
       },
       {
         name: ToolName.TYPESCRIPT_ANALYZE_FILE,
         description: `Analyzes TypeScript code quality metrics for a single file.
 
+Also accepts JavaScript (.js, .jsx, .mjs, .cjs), .mts/.cts modules, and Vue or Svelte components, whose <script> blocks are analyzed with line numbers from the original file.
+
 Key metrics include:
 - Logical Lines of Code (LLOC): Counts executable code elements including:
   * Statements (if, loops, return, etc.)
   * Declarations (variables, functions, classes, etc.)
   * Expressions (calls, assignments, etc.)
   * TypeScript-specific elements (interfaces, type aliases, etc.)
-- Cyclomatic complexity 
-- Maintainability index (0-100 scale)
+- Cyclomatic complexity
+- Cognitive complexity (nesting-aware readability measure)
+- Maintainability index (0-100 with the default 'vs' variant; maintainability_variant selects the SEI scales)
+- Halstead metrics (volume, difficulty, effort, estimated time and bugs)
 - Function-level metrics
 - Class metrics including inheritance depth
 
-Output formats: text (detailed) or markdown table (concise).`,
+Output formats: text (detailed), markdown table (concise) or json (versioned structured analysis, also returned as structured content).`,
         inputSchema: convertSchema(TypescriptAnalyzeFileSchema),
+        outputSchema: convertSchema(FileAnalysisOutputSchema),
       },
       {
         name: ToolName.TYPESCRIPT_ANALYZE_DIRECTORY,
@@ -96,7 +130,9 @@ Per-file metrics:
   * Expressions (calls, assignments, etc.)
   * TypeScript-specific elements (interfaces, type aliases, etc.)
 - Cyclomatic complexity
-- Maintainability index (0-100 scale)
+- Cognitive complexity (nesting-aware readability measure)
+- Maintainability index (0-100 with the default 'vs' variant; maintainability_variant selects the SEI scales)
+- Halstead metrics (volume, difficulty, effort, estimated time and bugs)
 - Optional function-level analysis
 - Class metrics
 
@@ -105,17 +141,145 @@ Results help identify:
 - Maintainability issues
 - Deep inheritance chains
 
-Output as markdown tables with file summaries and optional function details.
+Output as markdown tables with file summaries and optional function details, or as json (versioned structured analysis with per-file entries and aggregate totals, also returned as structured content).
+
+Analyzes TypeScript, JavaScript and Vue/Svelte script blocks by default; pass extensions to choose the file types.
 
 Respects .gitignore and common ignore patterns.`,
         inputSchema: convertSchema(TypescriptAnalyzeDirectorySchema),
+        outputSchema: convertSchema(DirectoryAnalysisOutputSchema),
+      },
+      {
+        name: ToolName.TYPESCRIPT_QUALITY_GATE,
+        description: `Evaluates TypeScript files in a directory against quality thresholds and returns a pass/fail verdict.
+
+Thresholds (all optional, defaults shown):
+- max_cyclomatic_complexity (10): checked for every function/method
+- min_maintainability_index (20): checked for every file
+- max_lloc (60): logical lines of code, checked for every function/method
+- max_inheritance_depth (5): checked for every file
+
+Returns the verdict together with every violating file or function, its line range, the measured value and the threshold it breached.
+
+Respects .gitignore and common ignore patterns.`,
+        inputSchema: convertSchema(TypescriptQualityGateSchema),
+        outputSchema: convertSchema(QualityGateOutputSchema),
+      },
+      {
+        name: ToolName.TYPESCRIPT_SAVE_BASELINE,
+        description: `Saves a baseline of the directory analysis to a JSON file for later comparison with typescript_compare_baseline.
+
+The baseline records cyclomatic complexity, cognitive complexity, maintainability index and LLOC per file (keyed by relative path) and per function (keyed by path and function name).
+
+Defaults to '.qualytics-baseline.json' inside the analyzed directory.`,
+        inputSchema: convertSchema(TypescriptSaveBaselineSchema),
+      },
+      {
+        name: ToolName.TYPESCRIPT_COMPARE_BASELINE,
+        description: `Compares the current directory analysis against a baseline saved with typescript_save_baseline.
+
+Reports:
+- New and removed files and functions
+- Complexity, maintainability index and LLOC deltas for everything that changed
+- Regressions: complexity or LLOC increases, or maintainability decreases, beyond the configured tolerance
+
+Use this to check whether a change made the code worse rather than looking at absolute numbers.`,
+        inputSchema: convertSchema(TypescriptCompareBaselineSchema),
+        outputSchema: convertSchema(BaselineComparisonOutputSchema),
+      },
+      {
+        name: ToolName.TYPESCRIPT_ANALYZE_GIT_CHANGES,
+        description: `Analyzes only the TypeScript files changed between two git revisions, with before/after metrics per file and per function.
+
+Compares base (default HEAD) with head, or with the working tree (including staged and untracked files) when head is omitted. File contents are read through the local git binary, so neither revision needs to be checked out.
+
+Reports for each changed source file:
+- Status (added, modified, deleted, renamed)
+- File metrics before and after
+- Added, removed and changed functions with their before/after metrics
+
+Use this to review the quality impact of a branch or pull request.`,
+        inputSchema: convertSchema(TypescriptAnalyzeGitChangesSchema),
+        outputSchema: convertSchema(GitChangesOutputSchema),
+      },
+      {
+        name: ToolName.TYPESCRIPT_ANALYZE_INHERITANCE,
+        description: `Builds the class and interface hierarchy across a whole project, resolving imported base types through relative imports, re-exports and tsconfig paths.
+
+Per-type metrics:
+- Depth of inheritance (DIT): a type without parents has depth 1; types from outside the project count as one level
+- Number of children (NOC): project types directly extending or implementing the type
+- Direct parents and the longest ancestor chain
+
+Unlike the per-file inheritance depth reported by the other tools, this follows base types declared in other files.
+
+Respects .gitignore and common ignore patterns.`,
+        inputSchema: convertSchema(TypescriptAnalyzeInheritanceSchema),
+        outputSchema: convertSchema(ProjectInheritanceOutputSchema),
+      },
+      {
+        name: ToolName.TYPESCRIPT_ANALYZE_DEPENDENCIES,
+        description: `Builds the module dependency graph of a project from its import and re-export declarations, per file or per folder.
+
+Per-module metrics (Robert C. Martin's package metrics):
+- Afferent coupling (Ca): modules that depend on this module
+- Efferent coupling (Ce): modules this module depends on
+- Instability: Ce / (Ca + Ce)
+- Abstractness: share of abstract classes and interfaces
+- Distance from the main sequence: |A + I - 1|
+
+Also detects import cycles. Output as markdown tables, json, or as a Graphviz DOT / Mermaid graph for rendering.
+
+Respects .gitignore and common ignore patterns.`,
+        inputSchema: convertSchema(TypescriptAnalyzeDependenciesSchema),
+        outputSchema: convertSchema(DependencyGraphOutputSchema),
+      },
+      {
+        name: ToolName.TYPESCRIPT_ANALYZE_HOTSPOTS,
+        description: `Finds refactoring hotspots by combining git change history with current complexity.
+
+Reads the git log of the directory over a configurable window (default: the last 12 months) and reports:
+- Per file: number of commits that changed it, lines changed, current complexity and LLOC
+- Per function: number of commits whose changes fell within the function, tracked across commits by name and line range
+
+Files and functions are ranked by score = change count * cyclomatic complexity: code that is both complex and frequently changed is the best candidate for refactoring.
+
+Respects .gitignore and common ignore patterns.`,
+        inputSchema: convertSchema(TypescriptAnalyzeHotspotsSchema),
+        outputSchema: convertSchema(HotspotsOutputSchema),
+      },
+      {
+        name: ToolName.TYPESCRIPT_FIND_DUPLICATES,
+        description: `Finds duplicated code across all source files in a directory using the parser's token stream.
+
+Reports:
+- Clone groups: fragments of at least min_tokens tokens (default 50) with the same token sequence, with the file and line range of every copy
+- Per file: lines of code, duplicated lines and duplication percentage
+
+By default identifiers and literals are normalised, so copies that only rename variables or change constants (Type-2 clones) are found as well as exact copies (Type-1 clones). Set normalize to false to report exact copies only.
+
+Respects .gitignore and common ignore patterns.`,
+        inputSchema: convertSchema(TypescriptFindDuplicatesSchema),
+        outputSchema: convertSchema(DuplicatesOutputSchema),
+      },
+      {
+        name: ToolName.TYPESCRIPT_GET_FUNCTION_SOURCE,
+        description: `Returns the exact source of one function, as reported by the analysis tools, without reading the whole file.
+
+Select the function by name, by a line inside it, or both (when several functions share a name). Returns:
+- The source text of the function and its line range
+- Its metrics (complexity, cognitive complexity, LLOC, maintainability, Halstead)
+- The enclosing namespace/class path, e.g. Outer.Service.handle
+- Optionally, the JSDoc comment preceding it (include_jsdoc)`,
+        inputSchema: convertSchema(TypescriptGetFunctionSourceSchema),
+        outputSchema: convertSchema(FunctionSourceOutputSchema),
       },
     ];
 
     return { tools };
   });
 
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
     const { name, arguments: args } = request.params;
     const handler = handlers[name as ToolName];
 
@@ -126,8 +290,17 @@ Respects .gitignore and common ignore patterns.`,
       };
     }
 
+    // Progress is only sent when the client asked for it with a progress token
+    const progressToken = request.params._meta?.progressToken;
+    const context: ToolContext = progressToken === undefined ? {} : {
+      reportProgress: (progress, total, message) => extra.sendNotification({
+        method: "notifications/progress",
+        params: { progressToken, progress, total, message }
+      })
+    };
+
     try {
-      return await handler(args);
+      return await handler(args, context);
     } catch (error) {
       return {
         isError: true,
@@ -144,10 +317,45 @@ Respects .gitignore and common ignore patterns.`,
 
 const cleanupHandlers = new Set<() => Promise<void>>();
 
-export async function startup() {
-  const transport = new StdioServerTransport();
-  const server = await createServer();
+export interface StartupOptions {
+  transport: 'stdio' | 'http';
+  port: number;
+  host: string;
+}
 
+export const DEFAULT_HTTP_PORT = 3000;
+
+/**
+ * Parses server flags (--transport, --port, --host) into startup options
+ */
+export function parseStartupArgs(args: string[]): StartupOptions {
+  const options: StartupOptions = { transport: 'stdio', port: DEFAULT_HTTP_PORT, host: '127.0.0.1' };
+
+  for (let i = 0; i < args.length; i++) {
+    const [flag, value] = [args[i], args[i + 1]];
+    if (value === undefined || !['--transport', '--port', '--host'].includes(flag)) {
+      throw new Error(`Unknown server option: ${flag}`);
+    }
+    i++;
+    if (flag === '--transport') {
+      if (value !== 'stdio' && value !== 'http') {
+        throw new Error(`Unknown transport: ${value} (expected stdio or http)`);
+      }
+      options.transport = value;
+    } else if (flag === '--port') {
+      options.port = Number(value);
+      if (!Number.isInteger(options.port) || options.port < 0 || options.port > 65535) {
+        throw new Error(`Invalid port: ${value}`);
+      }
+    } else {
+      options.host = value;
+    }
+  }
+
+  return options;
+}
+
+export async function startup(options: StartupOptions = parseStartupArgs([])) {
   // Graceful shutdown handler
   const cleanup = async () => {
     for (const handler of cleanupHandlers) {
@@ -159,6 +367,21 @@ export async function startup() {
   process.on('SIGINT', cleanup);
   process.on('SIGTERM', cleanup);
 
+  if (options.transport === 'http') {
+    try {
+      const close = await serveHttp(createServer, options.port, options.host);
+      cleanupHandlers.add(close);
+      console.error(`MCP Qualytics listening on http://${options.host}:${options.port} (Streamable HTTP: ${MCP_ENDPOINT}, SSE: ${SSE_ENDPOINT})`);
+    } catch (error) {
+      console.error("Failed to start server:", error);
+      process.exit(1);
+    }
+    return;
+  }
+
+  const transport = new StdioServerTransport();
+  const server = await createServer();
+
   // Register cleanup handler
   cleanupHandlers.add(async () => {
     await transport.close();
@@ -171,4 +394,4 @@ export async function startup() {
     console.error("Failed to start server:", error);
     process.exit(1);
   }
-}
\ No newline at end of file
+}
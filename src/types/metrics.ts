@@ -1,15 +1,58 @@
+/**
+ * Formula of the maintainability index, see calculateMaintainabilityIndex
+ */
+export type MaintainabilityVariant = 'vs' | 'sei' | 'sei-comments' | 'raw';
+
 export interface CodeMetrics {
   linesOfCode: number;  // Note: Property name kept for backward compatibility, but represents LLOC
   cyclomaticComplexity: number;
+  cognitiveComplexity: number;
   maintainabilityIndex: number;
+  maintainabilityVariant: MaintainabilityVariant;  // formula that produced maintainabilityIndex
   depthOfInheritance: number;
   classCount: number;
   methodCount: number;
   averageMethodComplexity: number;
+  halstead: HalsteadMetrics;
+  physicalLines: number;    // source lines spanned, including blank and comment lines
+  sourceLines: number;      // SLOC: lines holding code
+  commentLines: number;     // lines holding a comment, with or without code
+  blankLines: number;       // lines holding neither code nor comments
+  commentDensity: number;   // comment lines as a percentage of physical lines
+}
+
+export interface FunctionMetrics extends CodeMetrics {
+  maxNestingDepth: number;  // deepest nesting of control-flow blocks
+  parameterCount: number;   // bound parameter names, including destructured properties and rest
+  exitPoints: number;       // return and throw statements
 }
 
 export interface HalsteadMetrics {
-  volume: number;
+  distinctOperators: number;  // n1
+  distinctOperands: number;   // n2
+  totalOperators: number;     // N1
+  totalOperands: number;      // N2
+  vocabulary: number;         // n = n1 + n2
+  length: number;             // N = N1 + N2
+  calculatedLength: number;   // n1 * log2(n1) + n2 * log2(n2)
+  volume: number;             // N * log2(n)
+  difficulty: number;         // (n1 / 2) * (N2 / n2)
+  effort: number;             // D * V
+  time: number;               // E / 18 (seconds)
+  bugs: number;               // V / 3000
+}
+
+/**
+ * Metrics a suppression comment can exclude from threshold checks: complexity
+ * covers cyclomatic and cognitive complexity, lloc the logical lines of code
+ */
+export type SuppressibleMetric = 'complexity' | 'maintainability' | 'lloc' | 'inheritance';
+
+export interface Suppression {
+  kind: 'next-function' | 'function' | 'file';  // scope of the comment that applies it
+  metrics: SuppressibleMetric[];  // every metric when the comment lists none
+  reason?: string;                // text after `--` in the comment
+  line: number;                   // 1-based line of the comment
 }
 
 export interface FunctionInfo {
@@ -17,16 +60,55 @@ export interface FunctionInfo {
   type: 'function' | 'method' | 'arrow';
   startLine: number;
   endLine: number;
-  metrics: CodeMetrics;
+  containerPath: string[];       // enclosing namespaces and classes, outermost first
+  metrics: FunctionMetrics;
+  suppressions?: Suppression[];  // present when suppression comments apply to the function
 }
 
+export interface ClassMetrics {
+  weightedMethodsPerClass: number;  // WMC: sum of method cyclomatic complexities
+  lackOfCohesion: number;           // LCOM4: connected groups of methods sharing fields or calls
+  responseForClass: number;         // RFC: methods plus distinct methods they call
+  couplingBetweenObjects: number;   // CBO: distinct other types the class depends on
+  fieldCount: number;
+  methodCount: number;
+  publicMemberCount: number;
+  protectedMemberCount: number;
+  privateMemberCount: number;
+}
+
+export interface ClassInfo {
+  name: string;
+  startLine: number;
+  endLine: number;
+  metrics: ClassMetrics;
+}
+
+export interface ParseDiagnostic {
+  message: string;
+  line: number;    // 1-based
+  column: number;  // 1-based
+}
+
+// 'partial' when metrics were computed after skipping lines the parser rejected
+export type ParseStatus = 'ok' | 'partial' | 'failed';
+
 export interface FileAnalysis {
   fileMetrics: CodeMetrics;
   functions: FunctionInfo[];
+  classes: ClassInfo[];
+  parseStatus: ParseStatus;
+  diagnostics: ParseDiagnostic[];
+  suppressions?: Suppression[];  // file-level suppression comments, when present
+}
+
+export interface AnalyzeOptions {
+  partial?: boolean;  // recover from syntax errors by skipping the offending lines
+  maintainabilityVariant?: MaintainabilityVariant;  // defaults to 'vs'
 }
 
-export interface MetricsResult {
-  metrics: CodeMetrics;
+export interface MetricsResult<M extends CodeMetrics = CodeMetrics> {
+  metrics: M;
   details?: {
     halstead?: HalsteadMetrics;
     complexity?: number;
@@ -34,8 +116,8 @@ export interface MetricsResult {
   };
 }
 
-export interface MetricsCalculator<T = unknown> {
-  calculate(input: T): MetricsResult;
+export interface MetricsCalculator<T = unknown, M extends CodeMetrics = CodeMetrics> {
+  calculate(input: T): MetricsResult<M>;
 }
 
 export interface MetricsProcessor {
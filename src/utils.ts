@@ -1,13 +1,42 @@
 import { promises as fs } from 'fs';
 import path from 'path';
 import ignore from 'ignore';
+import type { ClassInfo, ClassMetrics, CodeMetrics, FileAnalysis, FunctionMetrics, HalsteadMetrics, MaintainabilityVariant, ParseDiagnostic, Suppression } from './types/metrics.js';
+import {
+  ANALYSIS_SCHEMA_VERSION,
+  FileAnalysisOutputSchema,
+  DirectoryAnalysisOutputSchema,
+  type FileAnalysisOutput,
+  type DirectoryFileEntry,
+  type DirectoryAnalysisOutput,
+  type ProjectParseError,
+  type ProjectInheritanceOutput,
+  type DependencyGraphOutput,
+  type DuplicatesOutput,
+  type CacheStats,
+  type FunctionSourceOutput
+} from './schemas.js';
 
 /**
- * Recursively finds TypeScript files in a directory while respecting ignore patterns
+ * Extensions analyzed when a call does not specify its own: TypeScript and
+ * JavaScript modules, and the script blocks of Vue and Svelte components
  */
-export async function findTypeScriptFiles(dir: string, additionalIgnorePatterns: string[] = []): Promise<string[]> {
-  const files: string[] = [];
-  
+export const DEFAULT_SOURCE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs', '.vue', '.svelte'];
+
+/**
+ * Checks whether a file name has one of the analyzed extensions (with or without the leading dot)
+ */
+export function isTypeScriptFile(filename: string, extensions: string[] = DEFAULT_SOURCE_EXTENSIONS): boolean {
+  const name = filename.toLowerCase();
+  return extensions.some(ext => name.endsWith(ext.startsWith('.') ? ext.toLowerCase() : `.${ext.toLowerCase()}`));
+}
+
+/**
+ * Loads the ignore rules of a directory: its .gitignore, node_modules, hidden
+ * and build directories, and the additional patterns. Paths are matched
+ * relative to the directory.
+ */
+export async function loadIgnoreRules(dir: string, additionalIgnorePatterns: string[] = []) {
   // Initialize ignore instance
   const ig = ignore();
   
@@ -27,6 +56,19 @@ export async function findTypeScriptFiles(dir: string, additionalIgnorePatterns:
   if (additionalIgnorePatterns.length > 0) {
     ig.add(additionalIgnorePatterns);
   }
+  return ig;
+}
+
+/**
+ * Recursively finds source files in a directory while respecting ignore patterns
+ */
+export async function findTypeScriptFiles(
+  dir: string,
+  additionalIgnorePatterns: string[] = [],
+  extensions: string[] = DEFAULT_SOURCE_EXTENSIONS
+): Promise<string[]> {
+  const files: string[] = [];
+  const ig = await loadIgnoreRules(dir, additionalIgnorePatterns);
   
   async function scan(directory: string) {
     const entries = await fs.readdir(directory, { withFileTypes: true });
@@ -42,7 +84,7 @@ export async function findTypeScriptFiles(dir: string, additionalIgnorePatterns:
       
       if (entry.isDirectory()) {
         await scan(fullPath);
-      } else if (entry.isFile() && (entry.name.endsWith('.ts') || entry.name.endsWith('.tsx'))) {
+      } else if (entry.isFile() && isTypeScriptFile(entry.name, extensions)) {
         files.push(fullPath);
       }
     }
@@ -53,51 +95,547 @@ export async function findTypeScriptFiles(dir: string, additionalIgnorePatterns:
 }
 
 /**
- * Formats analysis results as a markdown table
+ * Formats parse diagnostics as `file:line:column message` lines
  */
-export function formatAnalysisTable(analysis: any, filename?: string) {
-  let tableRows = [
-    '| Scope | Name | Type | Lines | LOC | Complexity | Maintainability | Classes | Methods | Avg Complexity | Inheritance Depth |',
-    '|--------|------|------|-------|-----|------------|----------------|----------|----------|----------------|------------------|',
-    // File level metrics
-    `| file | ${filename || 'input'} | - | - | ${analysis.fileMetrics.linesOfCode} | ${analysis.fileMetrics.cyclomaticComplexity} | ${analysis.fileMetrics.maintainabilityIndex.toFixed(2)} | ${analysis.fileMetrics.classCount} | ${analysis.fileMetrics.methodCount} | ${analysis.fileMetrics.averageMethodComplexity.toFixed(2)} | ${analysis.fileMetrics.depthOfInheritance} |`
+export function formatParseDiagnostics(file: string, diagnostics: ParseDiagnostic[]) {
+  return diagnostics.map(d => `${file}:${d.line}:${d.column} ${d.message}`).join('\n');
+}
+
+/**
+ * Describes a parse status for the Type column of file rows
+ */
+function parseStatusCell(parseStatus: FileAnalysis['parseStatus']) {
+  return parseStatus === 'failed' ? 'parse failed' : parseStatus === 'partial' ? 'partial parse' : '-';
+}
+
+/**
+ * Formats the parse status of a file as a warning paragraph, or '' when it parsed cleanly
+ */
+function formatParseWarning(parseStatus: FileAnalysis['parseStatus'], diagnostics: ParseDiagnostic[], file: string) {
+  if (parseStatus === 'ok') {
+    return '';
+  }
+  const summary = parseStatus === 'failed'
+    ? 'Parse failed: metrics are not available for this file.'
+    : 'Partial analysis: lines rejected by the parser were skipped.';
+  return `${summary}\n${formatParseDiagnostics(file, diagnostics)}`;
+}
+
+/**
+ * Formats Halstead metrics as markdown table cells (without outer pipes)
+ */
+function formatHalsteadCells(halstead: HalsteadMetrics) {
+  return [
+    halstead.vocabulary,
+    halstead.length,
+    halstead.calculatedLength.toFixed(2),
+    halstead.volume.toFixed(2),
+    halstead.difficulty.toFixed(2),
+    halstead.effort.toFixed(2),
+    halstead.time.toFixed(2),
+    halstead.bugs.toFixed(3)
+  ].join(' | ');
+}
+
+/**
+ * Formats Halstead metrics as indented text lines
+ */
+function formatHalsteadText(halstead: HalsteadMetrics, indent: string) {
+  return `${indent}- Halstead Vocabulary: ${halstead.vocabulary}
+${indent}- Halstead Length: ${halstead.length}
+${indent}- Halstead Calculated Length: ${halstead.calculatedLength.toFixed(2)}
+${indent}- Halstead Volume: ${halstead.volume.toFixed(2)}
+${indent}- Halstead Difficulty: ${halstead.difficulty.toFixed(2)}
+${indent}- Halstead Effort: ${halstead.effort.toFixed(2)}
+${indent}- Halstead Estimated Time (s): ${halstead.time.toFixed(2)}
+${indent}- Halstead Estimated Bugs: ${halstead.bugs.toFixed(3)}`;
+}
+
+/**
+ * Formats physical line counts as indented text lines
+ */
+function formatLineText(metrics: CodeMetrics, indent: string) {
+  return `${indent}- Physical Lines: ${metrics.physicalLines}
+${indent}- Source Lines (SLOC): ${metrics.sourceLines}
+${indent}- Comment Lines: ${metrics.commentLines}
+${indent}- Blank Lines: ${metrics.blankLines}
+${indent}- Comment Density: ${metrics.commentDensity.toFixed(2)}%`;
+}
+
+/**
+ * Formats class metrics as markdown table cells (without outer pipes)
+ */
+function formatClassCells(metrics: ClassMetrics) {
+  return [
+    metrics.weightedMethodsPerClass,
+    metrics.lackOfCohesion,
+    metrics.responseForClass,
+    metrics.couplingBetweenObjects,
+    metrics.fieldCount,
+    metrics.publicMemberCount,
+    metrics.protectedMemberCount,
+    metrics.privateMemberCount
+  ].join(' | ');
+}
+
+/**
+ * Formats function structure metrics as markdown table cells (without outer pipes), or dashes for non-function rows
+ */
+function formatStructureCells(metrics?: FunctionMetrics) {
+  if (!metrics) {
+    return Array(3).fill('-').join(' | ');
+  }
+  return [
+    metrics.maxNestingDepth,
+    metrics.parameterCount,
+    metrics.exitPoints
+  ].join(' | ');
+}
+
+/**
+ * Formats physical line counts as markdown table cells (without outer pipes)
+ */
+function formatLineCells(metrics: CodeMetrics) {
+  return [
+    metrics.physicalLines,
+    metrics.sourceLines,
+    metrics.commentLines,
+    metrics.blankLines,
+    metrics.commentDensity.toFixed(2)
+  ].join(' | ');
+}
+
+/**
+ * Describes suppressions with their comment lines, e.g. `complexity (line 12: state machine)`
+ */
+function describeSuppressions(suppressions: Suppression[]) {
+  return suppressions
+    .map(s => `${s.metrics.join(', ')} (line ${s.line}${s.reason ? `: ${s.reason}` : ''})`)
+    .join('; ');
+}
+
+/**
+ * Formats suppressions as an indented text line, or '' when there are none
+ */
+function formatSuppressionText(suppressions: Suppression[] | undefined, indent: string) {
+  if (!suppressions || suppressions.length === 0) {
+    return '';
+  }
+  return `${indent}- Suppressed: ${describeSuppressions(suppressions)}\n`;
+}
+
+/**
+ * Formats a markdown table header and its separator row
+ */
+function tableHeader(columns: string[]) {
+  return [
+    `| ${columns.join(' | ')} |`,
+    `|${columns.map(column => '-'.repeat(column.length + 2)).join('|')}|`
   ];
-  
-  // Function level metrics
-  for (const fn of analysis.functions) {
-    tableRows.push(
-      `| function | ${fn.name} | ${fn.type} | ${fn.startLine}-${fn.endLine} | ${fn.metrics.linesOfCode} | ${fn.metrics.cyclomaticComplexity} | ${fn.metrics.maintainabilityIndex.toFixed(2)} | - | ${fn.metrics.methodCount} | ${fn.metrics.averageMethodComplexity.toFixed(2)} | - |`
+}
+
+/**
+ * A file or function in the detail sections of the tables: its leading cells
+ * (file path in directory tables, scope and name) and its metrics
+ */
+interface DetailRow {
+  cells: string[];
+  metrics: CodeMetrics;
+  functionMetrics?: FunctionMetrics;
+  suppressions?: Suppression[];
+}
+
+/**
+ * Formats the core table columns of a file, class or function row: the ones
+ * the table has always had (cognitive complexity, Halstead, class, structure,
+ * line and suppression details are in the sections below it)
+ */
+function formatCoreCells(type: string, lines: string, metrics: CodeMetrics, isFile: boolean) {
+  return [
+    type,
+    lines,
+    metrics.linesOfCode,
+    metrics.cyclomaticComplexity,
+    metrics.maintainabilityIndex.toFixed(2),
+    isFile ? metrics.classCount : '-',
+    metrics.methodCount,
+    metrics.averageMethodComplexity.toFixed(2),
+    isFile ? metrics.depthOfInheritance : '-'
+  ].join(' | ');
+}
+
+/**
+ * Formats a class row of the core table; its class metrics are in the Classes section
+ */
+function formatClassCoreCells(cls: ClassInfo) {
+  const averageComplexity = cls.metrics.methodCount > 0
+    ? (cls.metrics.weightedMethodsPerClass / cls.metrics.methodCount).toFixed(2)
+    : '0.00';
+  return `class | ${cls.startLine}-${cls.endLine} | - | - | - | - | ${cls.metrics.methodCount} | ${averageComplexity} | -`;
+}
+
+/**
+ * Formats the sections following the core table: complexity and line details,
+ * Halstead metrics, class metrics and suppressions. Sections with nothing to
+ * show are left out.
+ */
+function formatDetailSections(leadingColumns: string[], rows: DetailRow[], classes: Array<{ cells: string[]; cls: ClassInfo }>) {
+  const lead = (cells: string[]) => `| ${cells.join(' | ')} |`;
+  const sections = [
+    '',
+    'Complexity and lines:',
+    ...tableHeader([...leadingColumns, 'Cognitive', 'Nesting', 'Params', 'Exits', 'Physical Lines', 'SLOC', 'Comment Lines', 'Blank Lines', 'Comment %']),
+    ...rows.map(row => `${lead(row.cells)} ${row.metrics.cognitiveComplexity} | ${formatStructureCells(row.functionMetrics)} | ${formatLineCells(row.metrics)} |`),
+    '',
+    'Halstead:',
+    ...tableHeader([...leadingColumns, 'Vocabulary', 'Length', 'Calc Length', 'Volume', 'Difficulty', 'Effort', 'Time (s)', 'Est. Bugs']),
+    ...rows.map(row => `${lead(row.cells)} ${formatHalsteadCells(row.metrics.halstead)} |`)
+  ];
+
+  if (classes.length > 0) {
+    sections.push(
+      '',
+      'Classes:',
+      ...tableHeader([...leadingColumns, 'Lines', 'WMC', 'LCOM4', 'RFC', 'CBO', 'Fields', 'Public', 'Protected', 'Private']),
+      ...classes.map(({ cells, cls }) => `${lead(cells)} ${cls.startLine}-${cls.endLine} | ${formatClassCells(cls.metrics)} |`)
     );
   }
-  
-  return tableRows.join('\n');
+
+  // File-level suppressions also apply to every function; they are listed once, on the file
+  const suppressed = rows
+    .map(row => ({ cells: row.cells, suppressions: (row.suppressions ?? []).filter(s => !row.functionMetrics || s.kind !== 'file') }))
+    .filter(row => row.suppressions.length > 0);
+  if (suppressed.length > 0) {
+    sections.push('', 'Suppressed:', ...suppressed.map(row => `- ${row.cells.join(' ')}: ${describeSuppressions(row.suppressions)}`));
+  }
+
+  return sections;
+}
+
+/**
+ * Formats analysis results as a markdown table of the core metrics, followed
+ * by sections with the detailed metrics
+ */
+export function formatAnalysisTable(analysis: FileAnalysis, filename?: string) {
+  const name = filename || 'input';
+  const parseWarning = formatParseWarning(analysis.parseStatus, analysis.diagnostics, name);
+  const classes = analysis.classes;
+
+  const tableRows = [
+    ...tableHeader(['Scope', 'Name', 'Type', 'Lines', 'LOC', 'Complexity', `Maintainability (${analysis.fileMetrics.maintainabilityVariant})`, 'Classes', 'Methods', 'Avg Complexity', 'Inheritance Depth']),
+    // File level metrics
+    `| file | ${name} | ${formatCoreCells(parseStatusCell(analysis.parseStatus), '-', analysis.fileMetrics, true)} |`,
+    // Class level metrics
+    ...classes.map(cls => `| class | ${cls.name} | ${formatClassCoreCells(cls)} |`),
+    // Function level metrics
+    ...analysis.functions.map(fn =>
+      `| function | ${fn.name} | ${formatCoreCells(fn.type, `${fn.startLine}-${fn.endLine}`, fn.metrics, false)} |`
+    ),
+    ...formatDetailSections(
+      ['Scope', 'Name'],
+      [
+        { cells: ['file', name], metrics: analysis.fileMetrics, suppressions: analysis.suppressions },
+        ...analysis.functions.map(fn => ({
+          cells: ['function', `${fn.name} (${fn.startLine}-${fn.endLine})`],
+          metrics: fn.metrics,
+          functionMetrics: fn.metrics,
+          suppressions: fn.suppressions
+        }))
+      ],
+      classes.map(cls => ({ cells: ['class', cls.name], cls }))
+    )
+  ];
+
+  return parseWarning ? `${parseWarning}\n\n${tableRows.join('\n')}` : tableRows.join('\n');
 }
 
 /**
  * Formats analysis results as human-readable text
  */
-export function formatAnalysisText(analysis: any, filename?: string) {
-  const fileText = `${filename ? `File: ${filename}\n` : ''}Metrics:
+export function formatAnalysisText(analysis: FileAnalysis, filename?: string) {
+  const parseWarning = formatParseWarning(analysis.parseStatus, analysis.diagnostics, filename || 'input');
+  const fileText = `${filename ? `File: ${filename}\n` : ''}${parseWarning ? `${parseWarning}\n\n` : ''}Metrics:
 - Lines of Code: ${analysis.fileMetrics.linesOfCode}
 - Cyclomatic Complexity: ${analysis.fileMetrics.cyclomaticComplexity}
-- Maintainability Index: ${analysis.fileMetrics.maintainabilityIndex.toFixed(2)}
+- Cognitive Complexity: ${analysis.fileMetrics.cognitiveComplexity}
+- Maintainability Index (${analysis.fileMetrics.maintainabilityVariant}): ${analysis.fileMetrics.maintainabilityIndex.toFixed(2)}
 - Class Count: ${analysis.fileMetrics.classCount}
 - Method Count: ${analysis.fileMetrics.methodCount}
 - Average Method Complexity: ${analysis.fileMetrics.averageMethodComplexity.toFixed(2)}
 - Depth of Inheritance: ${analysis.fileMetrics.depthOfInheritance}
+${formatSuppressionText(analysis.suppressions, '')}${formatLineText(analysis.fileMetrics, '')}
+${formatHalsteadText(analysis.fileMetrics.halstead, '')}
+${analysis.classes.length > 0 ? `
+Classes:` : ''}`;
 
-Functions:`;
+  const classesText = analysis.classes
+    .map(cls => `
+  ${cls.name}
+  Lines: ${cls.startLine}-${cls.endLine}
+  - Weighted Methods per Class (WMC): ${cls.metrics.weightedMethodsPerClass}
+  - Lack of Cohesion (LCOM4): ${cls.metrics.lackOfCohesion}
+  - Response for Class (RFC): ${cls.metrics.responseForClass}
+  - Coupling Between Objects (CBO): ${cls.metrics.couplingBetweenObjects}
+  - Fields: ${cls.metrics.fieldCount}
+  - Methods: ${cls.metrics.methodCount}
+  - Members: ${cls.metrics.publicMemberCount} public, ${cls.metrics.protectedMemberCount} protected, ${cls.metrics.privateMemberCount} private`
+    ).join('\n');
 
   const functionsText = analysis.functions
-    .map((fn: any) => `
+    .map(fn => `
   ${fn.name} (${fn.type})
   Lines: ${fn.startLine}-${fn.endLine}
   - Lines of Code: ${fn.metrics.linesOfCode}
   - Cyclomatic Complexity: ${fn.metrics.cyclomaticComplexity}
-  - Maintainability Index: ${fn.metrics.maintainabilityIndex.toFixed(2)}
+  - Cognitive Complexity: ${fn.metrics.cognitiveComplexity}
+  - Maintainability Index (${fn.metrics.maintainabilityVariant}): ${fn.metrics.maintainabilityIndex.toFixed(2)}
   - Methods: ${fn.metrics.methodCount}
-  - Average Method Complexity: ${fn.metrics.averageMethodComplexity.toFixed(2)}`
+  - Average Method Complexity: ${fn.metrics.averageMethodComplexity.toFixed(2)}
+  - Max Nesting Depth: ${fn.metrics.maxNestingDepth}
+  - Parameters: ${fn.metrics.parameterCount}
+  - Exit Points: ${fn.metrics.exitPoints}
+${formatSuppressionText(fn.suppressions, '  ')}${formatLineText(fn.metrics, '  ')}
+${formatHalsteadText(fn.metrics.halstead, '  ')}`
     ).join('\n');
 
-  return `${fileText}${functionsText}`;
-}
\ No newline at end of file
+  return `${fileText}${classesText}
+
+Functions:${functionsText}`;
+}
+
+/**
+ * Converts an analysis into the versioned structured output for a single file
+ */
+export function toFileAnalysisOutput(analysis: FileAnalysis, filename: string): FileAnalysisOutput {
+  return FileAnalysisOutputSchema.parse({
+    schemaVersion: ANALYSIS_SCHEMA_VERSION,
+    file: filename,
+    parseStatus: analysis.parseStatus,
+    diagnostics: analysis.diagnostics,
+    suppressions: analysis.suppressions,
+    fileMetrics: analysis.fileMetrics,
+    functions: analysis.functions,
+    classes: analysis.classes
+  });
+}
+
+/**
+ * Converts per-file analyses into the versioned structured output for a directory,
+ * including aggregate totals across all files. The maintainability aggregates
+ * only cover files that parsed without errors.
+ */
+export function toDirectoryAnalysisOutput(
+  directory: string,
+  entries: DirectoryFileEntry[],
+  maintainabilityVariant: MaintainabilityVariant,
+  cache: CacheStats
+): DirectoryAnalysisOutput {
+  const fileMetrics = entries.map(entry => entry.fileMetrics);
+  // Blanked lines would inflate the index of partially parsed files, and failed files have none
+  const maintainability = entries
+    .filter(entry => entry.parseStatus === 'ok')
+    .map(entry => entry.fileMetrics.maintainabilityIndex);
+
+  return DirectoryAnalysisOutputSchema.parse({
+    schemaVersion: ANALYSIS_SCHEMA_VERSION,
+    directory,
+    maintainabilityVariant,
+    files: entries,
+    totals: {
+      fileCount: entries.length,
+      parseFailureCount: entries.filter(entry => entry.parseStatus === 'failed').length,
+      partialParseCount: entries.filter(entry => entry.parseStatus === 'partial').length,
+      functionCount: entries.reduce((sum, entry) => sum + entry.functions.length, 0),
+      linesOfCode: fileMetrics.reduce((sum, m) => sum + m.linesOfCode, 0),
+      cyclomaticComplexity: fileMetrics.reduce((sum, m) => sum + m.cyclomaticComplexity, 0),
+      cognitiveComplexity: fileMetrics.reduce((sum, m) => sum + m.cognitiveComplexity, 0),
+      averageMaintainabilityIndex: maintainability.length > 0
+        ? maintainability.reduce((sum, mi) => sum + mi, 0) / maintainability.length
+        : 0,
+      minMaintainabilityIndex: maintainability.length > 0 ? Math.min(...maintainability) : 0,
+      classCount: fileMetrics.reduce((sum, m) => sum + m.classCount, 0),
+      methodCount: fileMetrics.reduce((sum, m) => sum + m.methodCount, 0),
+      maxDepthOfInheritance: fileMetrics.reduce((max, m) => Math.max(max, m.depthOfInheritance), 0)
+    },
+    cache
+  });
+}
+
+/**
+ * Formats directory analysis entries as a markdown table of the core metrics,
+ * followed by sections with the detailed metrics
+ */
+export function formatDirectoryTable(entries: DirectoryFileEntry[], maintainabilityVariant: MaintainabilityVariant, cache?: CacheStats) {
+  const tableRows = tableHeader(['File', 'Scope', 'Name', 'Type', 'Lines', 'LOC', 'Complexity', `Maintainability (${maintainabilityVariant})`, 'Classes', 'Methods', 'Avg Complexity', 'Inheritance Depth']);
+  const detailRows: DetailRow[] = [];
+  const classes: Array<{ cells: string[]; cls: ClassInfo }> = [];
+
+  for (const entry of entries) {
+    tableRows.push(`| ${entry.path} | file | - | ${formatCoreCells(parseStatusCell(entry.parseStatus), '-', entry.fileMetrics, true)} |`);
+    detailRows.push({ cells: [entry.path, 'file', '-'], metrics: entry.fileMetrics, suppressions: entry.suppressions });
+
+    for (const cls of entry.classes) {
+      tableRows.push(`| ${entry.path} | class | ${cls.name} | ${formatClassCoreCells(cls)} |`);
+      classes.push({ cells: [entry.path, 'class', cls.name], cls });
+    }
+
+    for (const fn of entry.functions) {
+      tableRows.push(`| ${entry.path} | function | ${fn.name} | ${formatCoreCells(fn.type, `${fn.startLine}-${fn.endLine}`, fn.metrics, false)} |`);
+      detailRows.push({
+        cells: [entry.path, 'function', `${fn.name} (${fn.startLine}-${fn.endLine})`],
+        metrics: fn.metrics,
+        functionMetrics: fn.metrics,
+        suppressions: fn.suppressions
+      });
+    }
+  }
+
+  tableRows.push(...formatDetailSections(['File', 'Scope', 'Name'], detailRows, classes));
+
+  const unparsed = entries.filter(entry => entry.diagnostics.length > 0);
+  if (unparsed.length > 0) {
+    tableRows.push(
+      '',
+      `Parse errors in ${unparsed.length} files (failed files have no metrics; partially parsed files skip rejected lines):`,
+      ...unparsed.map(entry => formatParseDiagnostics(entry.path, entry.diagnostics))
+    );
+  }
+
+  if (cache?.enabled) {
+    const failures = cache.writeFailures > 0 ? `, ${cache.writeFailures} failed writes` : '';
+    tableRows.push('', `Cache${cache.cleared ? ' (cleared)' : ''}: ${cache.hits} hits, ${cache.misses} misses${failures} (${cache.directory})`);
+  }
+
+  return tableRows.join('\n');
+}
+
+/**
+ * Formats the files a project-wide analysis left out as a paragraph of
+ * diagnostics, or no lines when every file parsed
+ */
+function formatProjectParseErrors(parseErrors: ProjectParseError[]): string[] {
+  if (parseErrors.length === 0) {
+    return [];
+  }
+  return [
+    '',
+    `Not analyzed (parse errors in ${parseErrors.length} files):`,
+    ...parseErrors.map(error => formatParseDiagnostics(error.path, error.diagnostics))
+  ];
+}
+
+/**
+ * Formats project-wide inheritance as a markdown table
+ */
+export function formatProjectInheritance(result: ProjectInheritanceOutput) {
+  const describe = (ref: { name: string; file?: string; module?: string }) =>
+    ref.file ? `${ref.name} (${ref.file})` : ref.module ? `${ref.name} (external: ${ref.module})` : `${ref.name} (unresolved)`;
+
+  const tableRows = [
+    `Types: ${result.types.length}, max depth of inheritance: ${result.maxDepthOfInheritance}`,
+    '',
+    '| Type | Kind | File | Line | DIT | NOC | Parents | Ancestor Chain |',
+    '|------|------|------|------|-----|-----|---------|----------------|'
+  ];
+
+  for (const type of result.types) {
+    const parents = type.parents.length > 0 ? type.parents.map(describe).join(', ') : '-';
+    const chain = type.ancestors.length > 0 ? type.ancestors.map(describe).join(' → ') : '-';
+    tableRows.push(
+      `| ${type.name} | ${type.kind} | ${type.file} | ${type.line} | ${type.depthOfInheritance} | ${type.numberOfChildren} | ${parents} | ${chain} |`
+    );
+  }
+
+  tableRows.push(...formatProjectParseErrors(result.parseErrors));
+  return tableRows.join('\n');
+}
+
+/**
+ * Formats the module dependency graph as markdown tables of coupling metrics and cycles
+ */
+export function formatDependencyGraph(result: DependencyGraphOutput) {
+  const tableRows = [
+    `Modules: ${result.nodes.length}, dependencies: ${result.edges.length} (${result.edges.filter(edge => edge.typeOnly).length} type-only), cycles: ${result.cycles.length}`,
+    '',
+    '| Module | Files | Ca | Ce | Instability | Abstractness | Distance | External |',
+    '|--------|-------|----|----|-------------|--------------|----------|----------|'
+  ];
+
+  for (const node of result.nodes) {
+    tableRows.push(
+      `| ${node.id} | ${node.files} | ${node.afferentCoupling} | ${node.efferentCoupling} | ${node.instability.toFixed(2)} | ${node.abstractness.toFixed(2)} | ${node.distance.toFixed(2)} | ${node.externalDependencies.length} |`
+    );
+  }
+
+  if (result.cycles.length > 0) {
+    tableRows.push('', 'Import cycles:');
+    for (const cycle of result.cycles) {
+      tableRows.push(`- ${cycle.path.join(' → ')} (${cycle.modules.length} modules)`);
+    }
+  }
+
+  tableRows.push(...formatProjectParseErrors(result.parseErrors));
+  return tableRows.join('\n');
+}
+
+/**
+ * Formats a duplication report as a summary line, a table of clone groups
+ * and a table of per-file duplication
+ */
+export function formatDuplicates(result: DuplicatesOutput) {
+  const t = result.totals;
+  const kind = result.normalized ? 'Type-1 and Type-2' : 'Type-1';
+  const lines = [
+    `Duplication: ${t.percentage.toFixed(2)}% (${t.duplicatedLines} of ${t.lineCount} lines in ${t.fileCount} files), ${t.groupCount} ${kind} clone groups of at least ${result.minTokens} tokens`
+  ];
+
+  if (result.groups.length > 0) {
+    lines.push(
+      '',
+      '| Group | Tokens | Lines | Fragments |',
+      '|-------|--------|-------|-----------|'
+    );
+    result.groups.forEach((group, i) => {
+      const fragments = group.fragments.map(f => `${f.file}:${f.startLine}-${f.endLine}`).join(', ');
+      lines.push(`| ${i + 1} | ${group.tokens} | ${group.lines} | ${fragments} |`);
+    });
+  }
+
+  if (result.files.length > 0) {
+    lines.push(
+      '',
+      '| File | Lines | Duplicated Lines | Duplication |',
+      '|------|-------|------------------|-------------|'
+    );
+    for (const file of result.files) {
+      lines.push(`| ${file.path} | ${file.lineCount} | ${file.duplicatedLines} | ${file.percentage.toFixed(2)}% |`);
+    }
+  }
+
+  if (result.skippedFiles.length > 0) {
+    lines.push('', `Skipped (parse errors): ${result.skippedFiles.join(', ')}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Formats an extracted function as its location and key metrics followed by
+ * the source in a fenced code block
+ */
+export function formatFunctionSource(result: FunctionSourceOutput) {
+  const m = result.metrics;
+  const language = path.extname(result.file).slice(1) || 'ts';
+  return [
+    `${result.qualifiedName} (${result.type}) in ${result.file}:${result.startLine}-${result.endLine}`,
+    `Complexity: ${m.cyclomaticComplexity}, Cognitive: ${m.cognitiveComplexity}, LOC: ${m.linesOfCode}, Maintainability (${m.maintainabilityVariant}): ${m.maintainabilityIndex.toFixed(2)}`,
+    `Nesting: ${m.maxNestingDepth}, Params: ${m.parameterCount}, Exits: ${m.exitPoints}, Physical Lines: ${m.physicalLines}`,
+    ...(result.suppressions ? [`Suppressed: ${describeSuppressions(result.suppressions)}`] : []),
+    ...(result.parseStatus === 'partial' ? ['', formatParseWarning(result.parseStatus, result.diagnostics, result.file)] : []),
+    '',
+    '```' + language,
+    ...(result.jsdoc ? [result.jsdoc] : []),
+    result.source,
+    '```'
+  ].join('\n');
+}
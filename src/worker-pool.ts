@@ -0,0 +1,142 @@
+import { Worker } from 'worker_threads';
+import os from 'os';
+import { analyzeFile } from './metrics/index.js';
+import type { AnalyzeOptions, FileAnalysis } from './types/metrics.js';
+import type { AnalysisRequest } from './analysis-worker.js';
+
+const WORKER_SCRIPT = new URL('./analysis-worker.js', import.meta.url);
+
+export const DEFAULT_CONCURRENCY = Math.max(os.cpus().length, 1);
+
+interface Task {
+  request: AnalysisRequest;
+  resolve: (analysis: FileAnalysis) => void;
+  reject: (error: Error) => void;
+}
+
+type AnalysisResponse = { id: number; analysis: FileAnalysis } | { id: number; error: string };
+
+/**
+ * Runs analyzeFile on a pool of worker threads. Workers are started on first
+ * use, up to `size`, so a run served entirely from the cache starts none.
+ * With a size of 1 files are analyzed on the calling thread instead.
+ */
+export class AnalysisWorkerPool {
+  private readonly idle: Worker[] = [];
+  private readonly running = new Map<Worker, Task>();
+  private readonly queue: Task[] = [];
+  private workerCount = 0;
+  private nextId = 0;
+  private closed = false;
+
+  constructor(private readonly size: number) {}
+
+  analyze(code: string, filePath: string, options: AnalyzeOptions): Promise<FileAnalysis> {
+    if (this.closed) {
+      return Promise.reject(new Error('Worker pool closed'));
+    }
+    if (this.size <= 1) {
+      return Promise.resolve(analyzeFile(code, filePath, options));
+    }
+
+    return new Promise((resolve, reject) => {
+      this.queue.push({ request: { id: this.nextId++, code, filePath, options }, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  private dispatch() {
+    while (!this.closed && this.queue.length > 0) {
+      const worker = this.idle.pop() ?? (this.workerCount < this.size ? this.startWorker() : undefined);
+      if (!worker) {
+        return;
+      }
+      const task = this.queue.shift()!;
+      this.running.set(worker, task);
+      worker.postMessage(task.request);
+    }
+  }
+
+  private startWorker() {
+    const worker = new Worker(WORKER_SCRIPT);
+    this.workerCount++;
+
+    worker.on('message', (response: AnalysisResponse) => {
+      const task = this.running.get(worker);
+      this.running.delete(worker);
+      this.idle.push(worker);
+      if ('error' in response) {
+        task?.reject(new Error(`Failed to analyze ${task.request.filePath}: ${response.error}`));
+      } else {
+        task?.resolve(response.analysis);
+      }
+      this.dispatch();
+    });
+
+    // A crashed worker fails its current file only; 'exit' follows and retires the worker
+    worker.on('error', (error) => {
+      const task = this.running.get(worker);
+      this.running.delete(worker);
+      task?.reject(new Error(`Failed to analyze ${task.request.filePath}: ${error.message}`));
+    });
+
+    // Also reached without an 'error' (process.exit, resource limits); a replacement is started on demand
+    worker.on('exit', (exitCode) => {
+      if (this.closed) {
+        return;
+      }
+      const task = this.running.get(worker);
+      this.running.delete(worker);
+      const idleIndex = this.idle.indexOf(worker);
+      if (idleIndex >= 0) {
+        this.idle.splice(idleIndex, 1);
+      }
+      this.workerCount--;
+      task?.reject(new Error(`Failed to analyze ${task.request.filePath}: worker exited with code ${exitCode}`));
+      this.dispatch();
+    });
+
+    return worker;
+  }
+
+  /**
+   * Stops all workers; files that are queued or being analyzed are rejected
+   */
+  async close() {
+    this.closed = true;
+    for (const task of [...this.queue.splice(0), ...this.running.values()]) {
+      task.reject(new Error('Worker pool closed'));
+    }
+    const workers = [...this.idle, ...this.running.keys()];
+    this.idle.length = 0;
+    this.running.clear();
+    this.workerCount = 0;
+    await Promise.all(workers.map(worker => worker.terminate()));
+  }
+}
+
+/**
+ * Maps items with at most `limit` calls in flight, returning results in input order.
+ * After the first rejection no further item is started, so that the caller may
+ * release resources as soon as the returned promise rejects.
+ */
+export async function mapConcurrently<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  let failed = false;
+
+  const lane = async () => {
+    while (!failed && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await fn(items[index]);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, lane));
+  return results;
+}
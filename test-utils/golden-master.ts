@@ -1,18 +1,81 @@
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
 import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { execFileSync, spawnSync } from 'child_process';
+import { request as httpRequest, type IncomingMessage } from 'http';
+import { createServer as createNetServer } from 'net';
 import { parse } from "@typescript-eslint/typescript-estree";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { ResultSchema, type Notification } from "@modelcontextprotocol/sdk/types.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
 const FIXTURES_DIR = join(__dirname, '..', 'test', 'fixtures');
 const SNAPSHOTS_DIR = join(__dirname, '..', 'test', 'snapshots');
+const SCENARIOS_DIR = join(FIXTURES_DIR, 'scenarios');
+const SCENARIO_SNAPSHOTS_DIR = join(SNAPSHOTS_DIR, 'scenarios');
+const CLI_ENTRY = join(__dirname, '..', 'dist', 'index.js');
+// A CLI run still going after this long has hung, e.g. on a worker that was never terminated
+const CLI_TIMEOUT_MS = 60000;
+// Stands for the current MCP session ID in HTTP exchanges and snapshots
+const SESSION_PLACEHOLDER = '<session>';
+// Longest wait for an HTTP response or the next event of a stream
+const HTTP_TIMEOUT_MS = 10000;
+// Time for the server to notice that a client closed its stream
+const STREAM_CLOSE_DELAY_MS = 200;
+const SCENARIO_FILE = 'scenario.json';
+// Stands for the scenario's working copy in step arguments and snapshots
+const SCENARIO_PLACEHOLDER = '<scenario>';
+// Times the run itself records, such as when a baseline was saved
+const TIMESTAMP_PATTERN = /\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z/g;
 
 // Import analyzer from source to get type information
 import type { MetricsResult } from '../dist/types/metrics.js';
 let functionAnalyzer: { analyzeFunctions(node: any): { name: string, type: string, startLine: number, endLine: number, metrics: MetricsResult }[] };
 
+interface ToolResult {
+    content: { type: string, text?: string }[];
+    structuredContent?: unknown;
+    isError?: boolean;
+}
+let handlers: Record<string, (args: unknown) => Promise<ToolResult>>;
+
+/**
+ * A step of a scenario: a tool call, run with the handler of the MCP tool, a
+ * command line run, or a change to the working copy between calls
+ */
+interface ScenarioStep {
+    tool?: string;
+    args?: Record<string, unknown>;  // '<scenario>' in strings is replaced by the working copy path
+    text?: boolean;                  // also snapshot the text content of structured results
+    write?: Record<string, string>;  // files to create or overwrite, relative to the working copy
+    resize?: Record<string, number>; // files to create or resize to a size in bytes, sparse so that large files take no disk space
+    remove?: string[];
+    git?: string[];                  // git arguments, run with a fixed identity and commit date
+    cli?: string[];                  // command line arguments, run as a separate process in the working copy
+    http?: HttpExchange;             // an exchange with the scenario's HTTP server, started on first use
+    mcp?: { method: string; params?: Record<string, unknown> };  // a request from an in-memory MCP client, connected on first use
+    notifications?: number;          // wait this many milliseconds, then record the notifications the MCP client received since the last record
+}
+
+/**
+ * A request to the HTTP server ('<session>' in the path, headers and body is
+ * replaced by the current session ID), optionally kept open as the event
+ * stream; reading the next events of that stream; or closing it
+ */
+type HttpExchange =
+    | { method?: string; path: string; headers?: Record<string, string>; body?: unknown; stream?: boolean }
+    | { events: number }
+    | { close: true };
+
+interface Scenario {
+    description: string;
+    steps: ScenarioStep[];
+}
+
 async function createSnapshot(fixturePath: string): Promise<string> {
     try {
         const code = await fs.readFile(fixturePath, 'utf8');
@@ -88,25 +151,383 @@ async function verifySnapshots(): Promise<boolean> {
     return success;
 }
 
+/**
+ * An MCP client connected in memory to a server as created for each session,
+ * recording the notifications it receives
+ */
+class McpSession {
+    private notifications: Notification[] = [];
+
+    private constructor(private readonly client: Client) {
+        client.fallbackNotificationHandler = async (notification) => {
+            this.notifications.push(notification);
+        };
+    }
+
+    static async start(): Promise<McpSession> {
+        const { createServer } = await import('../dist/server.js');
+        const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+        const server = await createServer();
+        await server.connect(serverTransport);
+        const session = new McpSession(new Client({ name: 'scenario', version: '1.0.0' }));
+        await session.client.connect(clientTransport);
+        return session;
+    }
+
+    async request(method: string, params?: Record<string, unknown>): Promise<Record<string, unknown>> {
+        try {
+            return { result: await this.client.request({ method, params }, ResultSchema) };
+        } catch (error) {
+            return { error: error instanceof Error ? error.message : String(error) };
+        }
+    }
+
+    /**
+     * Notifications received after waiting, sorted as several may be sent at once
+     */
+    async takeNotifications(waitMs: number): Promise<Notification[]> {
+        await new Promise(resolve => setTimeout(resolve, waitMs));
+        const received = this.notifications.map(n => JSON.stringify(n)).sort().map(n => JSON.parse(n));
+        this.notifications = [];
+        return received;
+    }
+
+    close() {
+        return this.client.close();
+    }
+}
+
+/**
+ * Copies a scenario directory, without its scenario.json, into a fresh
+ * temporary directory, adding a package.json when the scenario has none
+ */
+async function createWorkingCopy(scenarioDir: string): Promise<string> {
+    const workDir = await fs.realpath(await fs.mkdtemp(join(tmpdir(), 'qualytics-scenario-')));
+    const copy = async (from: string, to: string) => {
+        for (const entry of await fs.readdir(from, { withFileTypes: true })) {
+            if (from === scenarioDir && entry.name === SCENARIO_FILE) {
+                continue;
+            }
+            if (entry.isDirectory()) {
+                await fs.mkdir(join(to, entry.name));
+                await copy(join(from, entry.name), join(to, entry.name));
+            } else {
+                await fs.copyFile(join(from, entry.name), join(to, entry.name));
+            }
+        }
+    };
+    await copy(scenarioDir, workDir);
+    // A package.json marks the project root, so configuration lookup stays inside the copy
+    await fs.writeFile(join(workDir, 'package.json'), '{ "private": true }\n', { flag: 'wx' }).catch(() => undefined);
+    return workDir;
+}
+
+const withPlaceholder = (value: unknown, workDir: string): unknown => JSON.parse(
+    JSON.stringify(value).split(SCENARIO_PLACEHOLDER).join(workDir)
+);
+
+const withTimeout = <T>(promise: Promise<T>, what: string): Promise<T> => {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Timed out waiting for ${what}`)), HTTP_TIMEOUT_MS);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+};
+
+async function findFreePort(): Promise<number> {
+    const server = createNetServer();
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const address = server.address();
+    await new Promise(resolve => server.close(resolve));
+    if (!address || typeof address === 'string') {
+        throw new Error('No free port');
+    }
+    return address.port;
+}
+
+/**
+ * Server-sent events of an open response, read one at a time
+ */
+class EventStream {
+    private buffer = '';
+    private ended = false;
+    private waiting?: () => void;
+
+    constructor(readonly response: IncomingMessage) {
+        response.setEncoding('utf8');
+        response.on('data', (chunk: string) => {
+            this.buffer += chunk.replace(/\r\n/g, '\n');
+            this.waiting?.();
+        });
+        response.on('close', () => {
+            this.ended = true;
+            this.waiting?.();
+        });
+    }
+
+    async next(): Promise<string> {
+        while (!this.buffer.includes('\n\n')) {
+            if (this.ended) {
+                throw new Error('Event stream ended');
+            }
+            await withTimeout(new Promise<void>(resolve => { this.waiting = resolve; }), 'an event');
+        }
+        const end = this.buffer.indexOf('\n\n');
+        const event = this.buffer.slice(0, end);
+        this.buffer = this.buffer.slice(end + 2);
+        return event;
+    }
+}
+
+/**
+ * The HTTP server of a scenario, as started by `--transport http`, and the
+ * state its exchanges share: the session and the open event stream
+ */
+class HttpSession {
+    sessionIds = new Set<string>();
+    private sessionId?: string;
+    private stream?: EventStream;
+
+    private constructor(private readonly port: number, readonly close: () => Promise<void>) {}
+
+    static async start(): Promise<HttpSession> {
+        const { serveHttp } = await import('../dist/http.js');
+        const { createServer } = await import('../dist/server.js');
+        const port = await findFreePort();
+        return new HttpSession(port, await serveHttp(createServer, port, '127.0.0.1'));
+    }
+
+    private useSession(sessionId: string | undefined) {
+        if (sessionId) {
+            this.sessionId = sessionId;
+            this.sessionIds.add(sessionId);
+        }
+    }
+
+    private send(method: string, path: string, headers: Record<string, string>, body?: string): Promise<IncomingMessage> {
+        return withTimeout(new Promise((resolve, reject) => {
+            const req = httpRequest({ host: '127.0.0.1', port: this.port, method, path, headers }, resolve);
+            req.on('error', reject);
+            req.end(body);
+        }), `${method} ${path}`);
+    }
+
+    async exchange(exchange: HttpExchange): Promise<Record<string, unknown>> {
+        if ('events' in exchange) {
+            if (!this.stream) {
+                throw new Error('No open event stream');
+            }
+            const events: string[] = [];
+            for (let i = 0; i < exchange.events; i++) {
+                events.push(await this.stream.next());
+            }
+            return { events };
+        }
+        if ('close' in exchange) {
+            this.stream?.response.destroy();
+            this.stream = undefined;
+            await new Promise(resolve => setTimeout(resolve, STREAM_CLOSE_DELAY_MS));
+            return {};
+        }
+
+        const withSession = (value: string) => value.split(SESSION_PLACEHOLDER).join(this.sessionId ?? '');
+        const method = exchange.method ?? 'GET';
+        const path = withSession(exchange.path);
+        const headers: Record<string, string> = { accept: 'application/json, text/event-stream' };
+        for (const [name, value] of Object.entries(exchange.headers ?? {})) {
+            headers[name.toLowerCase()] = withSession(value);
+        }
+        const body = exchange.body === undefined ? undefined : withSession(JSON.stringify(exchange.body));
+        if (body !== undefined) {
+            headers['content-type'] = 'application/json';
+        }
+
+        const response = await this.send(method, path, headers, body);
+        this.useSession(response.headers['mcp-session-id'] as string | undefined);
+        const result = { status: response.statusCode };
+
+        if (exchange.stream) {
+            this.stream = new EventStream(response);
+            const event = await this.stream.next();
+            // The legacy SSE transport announces the session in the endpoint it posts messages to
+            this.useSession(/sessionId=([\w-]+)/.exec(event)?.[1]);
+            return { ...result, events: [event] };
+        }
+
+        const chunks: string[] = [];
+        response.setEncoding('utf8');
+        response.on('data', (chunk: string) => chunks.push(chunk));
+        await withTimeout(new Promise(resolve => response.on('end', resolve)), `the response to ${method} ${path}`);
+        return { ...result, body: chunks.join('').replace(/\r\n/g, '\n') };
+    }
+
+    async stop() {
+        this.stream?.response.destroy();
+        await this.close();
+    }
+}
+
+/**
+ * Runs a scenario in a working copy and returns the snapshot of its tool
+ * results. Paths of the working copy and timestamps are normalized so that
+ * snapshots do not depend on where or when they were taken.
+ */
+async function runScenario(name: string): Promise<string> {
+    const scenarioDir = join(SCENARIOS_DIR, name);
+    const scenario: Scenario = JSON.parse(await fs.readFile(join(scenarioDir, SCENARIO_FILE), 'utf8'));
+    const workDir = await createWorkingCopy(scenarioDir);
+    const results: unknown[] = [];
+    let commits = 0;
+    let http: HttpSession | undefined;
+    let mcp: McpSession | undefined;
+
+    try {
+        for (const step of scenario.steps) {
+            for (const [file, content] of Object.entries(step.write ?? {})) {
+                await fs.mkdir(dirname(join(workDir, file)), { recursive: true });
+                await fs.writeFile(join(workDir, file), content);
+            }
+            for (const [file, size] of Object.entries(step.resize ?? {})) {
+                await fs.mkdir(dirname(join(workDir, file)), { recursive: true });
+                await (await fs.open(join(workDir, file), 'a')).close();
+                await fs.truncate(join(workDir, file), size);
+            }
+            for (const file of step.remove ?? []) {
+                await fs.rm(join(workDir, file), { recursive: true, force: true });
+            }
+            if (step.git) {
+                // One day per git command keeps commit dates, and so hashes, reproducible
+                const date = new Date(Date.UTC(2024, 0, 1 + commits++)).toISOString();
+                execFileSync('git', step.git, {
+                    cwd: workDir,
+                    stdio: 'ignore',
+                    env: {
+                        ...process.env,
+                        GIT_CONFIG_GLOBAL: '/dev/null',
+                        GIT_CONFIG_NOSYSTEM: '1',
+                        GIT_AUTHOR_NAME: 'Scenario',
+                        GIT_AUTHOR_EMAIL: 'scenario@example.com',
+                        GIT_COMMITTER_NAME: 'Scenario',
+                        GIT_COMMITTER_EMAIL: 'scenario@example.com',
+                        GIT_AUTHOR_DATE: date,
+                        GIT_COMMITTER_DATE: date
+                    }
+                });
+            }
+            if (step.cli) {
+                const run = spawnSync(process.execPath, [CLI_ENTRY, ...step.cli], {
+                    cwd: workDir,
+                    encoding: 'utf8',
+                    timeout: CLI_TIMEOUT_MS
+                });
+                if (run.error || run.status === null) {
+                    throw new Error(`CLI ${step.cli.join(' ')} did not exit: ${run.error ?? run.signal}`);
+                }
+                results.push({ cli: step.cli, exitCode: run.status, stdout: run.stdout, stderr: run.stderr });
+            }
+            if (step.http) {
+                http ??= await HttpSession.start();
+                results.push({ http: step.http, ...await http.exchange(withPlaceholder(step.http, workDir) as HttpExchange) });
+            }
+            if (step.mcp) {
+                mcp ??= await McpSession.start();
+                const { method, params } = withPlaceholder(step.mcp, workDir) as NonNullable<ScenarioStep['mcp']>;
+                results.push({ mcp: step.mcp, ...await mcp.request(method, params) });
+            }
+            if (step.notifications !== undefined) {
+                if (!mcp) {
+                    throw new Error('Notifications need an MCP client; make a request first');
+                }
+                results.push({ notifications: await mcp.takeNotifications(step.notifications) });
+            }
+            if (step.tool) {
+                const handler = handlers[step.tool];
+                if (!handler) {
+                    throw new Error(`Unknown tool ${step.tool}`);
+                }
+                const result = await handler(withPlaceholder(step.args ?? {}, workDir));
+                const text = result.content.map(item => item.text ?? '').join('\n');
+                // Tools without structured content are snapshot by their text
+                const showText = step.text || result.structuredContent === undefined;
+                results.push({
+                    tool: step.tool,
+                    args: step.args ?? {},
+                    ...(result.isError ? { error: text } : { result: result.structuredContent }),
+                    ...(showText && !result.isError && { text })
+                });
+            }
+        }
+    } finally {
+        await http?.stop();
+        await mcp?.close();
+        await fs.rm(workDir, { recursive: true, force: true });
+    }
+
+    let snapshot = JSON.stringify({ description: scenario.description, results }, null, 2);
+    for (const sessionId of http?.sessionIds ?? []) {
+        snapshot = snapshot.split(sessionId).join(SESSION_PLACEHOLDER);
+    }
+    return snapshot
+        .split(workDir).join(SCENARIO_PLACEHOLDER)
+        .replace(TIMESTAMP_PATTERN, '<timestamp>');
+}
+
+async function listScenarios(): Promise<string[]> {
+    const entries = await fs.readdir(SCENARIOS_DIR, { withFileTypes: true }).catch(() => []);
+    return entries.filter(entry => entry.isDirectory()).map(entry => entry.name).sort();
+}
+
+async function generateScenarioSnapshots(): Promise<void> {
+    await fs.mkdir(SCENARIO_SNAPSHOTS_DIR, { recursive: true });
+
+    for (const name of await listScenarios()) {
+        const snapshot = await runScenario(name);
+        await fs.writeFile(join(SCENARIO_SNAPSHOTS_DIR, `${name}.snapshot.json`), snapshot);
+        console.log(`Created snapshot for scenario ${name}`);
+    }
+}
+
+async function verifyScenarioSnapshots(): Promise<boolean> {
+    let success = true;
+
+    for (const name of await listScenarios()) {
+        const snapshot = await runScenario(name);
+        const expected = await fs.readFile(join(SCENARIO_SNAPSHOTS_DIR, `${name}.snapshot.json`), 'utf8').catch(() => undefined);
+        if (snapshot !== expected) {
+            console.error(`❌ Snapshot mismatch for scenario ${name}`);
+            success = false;
+        } else {
+            console.log(`✅ Snapshot matches for scenario ${name}`);
+        }
+    }
+
+    return success;
+}
+
 // Command line interface
 async function main() {
     // Wait for the module to load
     await import('../dist/metrics/function-analyzer.js').then(module => {
         functionAnalyzer = module.functionAnalyzer;
     });
+    await import('../dist/handlers.js').then(module => {
+        handlers = module.handlers as unknown as typeof handlers;
+    });
 
     const command = process.argv[2];
     if (command === 'generate') {
-        await generateSnapshots().catch(error => {
+        await generateSnapshots().then(generateScenarioSnapshots).catch(error => {
             console.error('Error generating snapshots:', error);
             process.exit(1);
         });
     } else if (command === 'verify') {
-        const success = await verifySnapshots().catch(error => {
-            console.error('Error verifying snapshots:', error);
-            process.exit(1);
-            return false;
-        });
+        const success = await verifySnapshots()
+            .then(async functionsMatch => (await verifyScenarioSnapshots()) && functionsMatch)
+            .catch(error => {
+                console.error('Error verifying snapshots:', error);
+                process.exit(1);
+                return false;
+            });
         process.exit(success ? 0 : 1);
     } else {
         console.error('Please specify either "generate" or "verify" as command');
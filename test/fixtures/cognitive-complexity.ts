@@ -0,0 +1,69 @@
+// Cognitive complexity: 7 (SonarSource white paper example)
+function sumOfPrimes(max: number): number {
+  let total = 0;
+  OUT: for (let i = 1; i <= max; ++i) {
+    for (let j = 2; j < i; ++j) {
+      if (i % j === 0) {
+        continue OUT;
+      }
+    }
+    total += i;
+  }
+  return total;
+}
+
+// Cognitive complexity: 1 (a flat switch counts once)
+function getWords(count: number): string {
+  switch (count) {
+    case 1:
+      return "one";
+    case 2:
+      return "a couple";
+    case 3:
+      return "a few";
+    default:
+      return "lots";
+  }
+}
+
+// Cognitive complexity: 5 (if, else if, else, two runs of logical operators)
+function classify(a: boolean, b: boolean, c: boolean): string {
+  if (a && b || c) {
+    return "first";
+  } else if (b) {
+    return "second";
+  } else {
+    return "third";
+  }
+}
+
+// Cognitive complexity: 2 (if, recursion)
+function factorial(n: number): number {
+  if (n <= 1) {
+    return 1;
+  }
+  return n * factorial(n - 1);
+}
+
+// Cognitive complexity: 4 (nested arrow functions increase nesting)
+function filterPositive(values: number[]): number[] {
+  return values.filter((value) => {
+    if (value > 0) {
+      return true;
+    }
+    return false;
+  }).map((value) => value ? value : 0);
+}
+
+class TreeWalker {
+  // Cognitive complexity: 3 (if, recursion through this, catch)
+  walk(depth: number): void {
+    try {
+      if (depth > 0) {
+        this.walk(depth - 1);
+      }
+    } catch (error) {
+      console.error(error);
+    }
+  }
+}
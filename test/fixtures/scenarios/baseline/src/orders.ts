@@ -0,0 +1,17 @@
+export class OrderService {
+  constructor(private readonly rate: number) {}
+
+  total(prices: number[]): number {
+    return prices.reduce((sum, price) => sum + price, 0);
+  }
+
+  tax(amount: number): number {
+    return amount * this.rate;
+  }
+}
+
+export const round = (value: number) => Math.round(value * 100) / 100;
+
+export function legacyDiscount(amount: number): number {
+  return amount > 100 ? amount * 0.9 : amount;
+}
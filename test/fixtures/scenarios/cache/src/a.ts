@@ -0,0 +1,3 @@
+export function first(value: number): number {
+  return value > 0 ? value : -value;
+}
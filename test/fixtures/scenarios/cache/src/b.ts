@@ -0,0 +1,3 @@
+export function second(values: string[]): string {
+  return values.join(', ');
+}
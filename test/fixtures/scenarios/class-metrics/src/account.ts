@@ -0,0 +1,43 @@
+import { Ledger } from './ledger';
+
+enum Currency {
+  Euro = 'EUR'
+}
+
+export class Account {
+  private _balance = 0;
+  private owner: string;
+  protected ledger = new Ledger();
+
+  constructor(owner: string) {
+    this.owner = owner;
+  }
+
+  get balance(): number {
+    return this._balance;
+  }
+
+  set balance(value: number) {
+    this._balance = Math.max(0, value);
+  }
+
+  deposit(amount: number): void {
+    if (amount <= 0) {
+      throw new RangeError('amount must be positive');
+    }
+    this.balance = this._balance + amount;
+    this.ledger.record(amount);
+  }
+
+  describe(): string {
+    return JSON.stringify({ owner: this.owner, currency: Currency.Euro });
+  }
+
+  summary(): string {
+    return `${this.owner}: ${this.balance}`;
+  }
+
+  static open(owner: string): Account {
+    return new Account(owner);
+  }
+}
@@ -0,0 +1,30 @@
+import { Ledger } from './ledger';
+
+type Unwrapped<V> = V extends Promise<infer U> ? U : V;
+
+export function createRegistry<TItem>() {
+  return class Registry<TKey extends string> {
+    private readonly items = new Map<TKey, TItem>();
+
+    set(key: TKey, item: TItem): void {
+      this.items.set(key, item);
+    }
+
+    map<TResult>(transform: (item: TItem) => TResult): TResult[] {
+      return [...this.items.values()].map(transform);
+    }
+
+    pick<K extends keyof TItem>(key: K): { [P in K]: TItem[P] }[] {
+      return [...this.items.values()].map(item => ({ [key]: item[key] }) as { [P in K]: TItem[P] });
+    }
+
+    unwrap<T>(value: T): T extends Promise<infer R> ? R : T {
+      return value as T extends Promise<infer R> ? R : T;
+    }
+
+    record(ledger: Ledger, value: Unwrapped<number>): void {
+      ledger.toString();
+      void value;
+    }
+  };
+}
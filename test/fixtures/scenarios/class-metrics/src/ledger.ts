@@ -0,0 +1,15 @@
+export class Ledger {
+  private entries: number[] = [];
+
+  record(amount: number): void {
+    this.entries.push(amount);
+  }
+
+  total(): number {
+    return this.entries.reduce((sum, entry) => sum + entry, 0);
+  }
+
+  reset(): void {
+    console.log('reset');
+  }
+}
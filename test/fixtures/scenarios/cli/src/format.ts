@@ -0,0 +1,3 @@
+export function formatPrice(amount: number, currency = 'EUR'): string {
+  return `${amount.toFixed(2)} ${currency}`;
+}
@@ -0,0 +1,19 @@
+export function shippingCost(weight: number, zone: string, express: boolean, member: boolean): number {
+  let cost = 0;
+  if (zone === 'domestic') {
+    cost = weight < 1 ? 4 : weight < 5 ? 7 : 12;
+  } else if (zone === 'europe') {
+    cost = weight < 1 ? 9 : weight < 5 ? 15 : 25;
+  } else if (zone === 'world') {
+    cost = weight < 1 ? 14 : weight < 5 ? 24 : 40;
+  } else {
+    throw new Error(`Unknown zone: ${zone}`);
+  }
+  if (express && zone !== 'world') {
+    cost *= 2;
+  }
+  if (member && cost > 10) {
+    cost -= 5;
+  }
+  return cost;
+}
@@ -0,0 +1,11 @@
+import { render } from '../ui/view';
+import type { Theme } from '../ui/theme';
+
+export interface State {
+  count: number;
+  theme?: Theme;
+}
+
+export function update(state: State): string {
+  return render(state);
+}
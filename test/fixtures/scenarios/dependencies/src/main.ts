@@ -0,0 +1,7 @@
+import { update } from './core/store';
+const legacy = require('./ui/format');
+
+export async function start() {
+  const { refresh } = await import('./ui/view');
+  return refresh({ count: legacy.format(1).length }) + update({ count: 0 });
+}
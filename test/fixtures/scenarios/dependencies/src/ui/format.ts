@@ -0,0 +1,5 @@
+import { EOL } from 'os';
+
+export function format(value: number): string {
+  return `${value}${EOL}`;
+}
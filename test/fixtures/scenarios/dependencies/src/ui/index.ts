@@ -0,0 +1,2 @@
+export type { Theme } from './theme';
+export { render, refresh } from './view';
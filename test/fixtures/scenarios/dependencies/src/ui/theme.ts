@@ -0,0 +1,4 @@
+import type { State } from '../core/store';
+
+export type Theme = 'light' | 'dark';
+export type { State };
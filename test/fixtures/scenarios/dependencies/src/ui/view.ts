@@ -0,0 +1,10 @@
+import { update, type State } from '../core/store';
+import { format } from './format';
+
+export function render(state: State): string {
+  return format(state.count);
+}
+
+export function refresh(state: State): string {
+  return update(state);
+}
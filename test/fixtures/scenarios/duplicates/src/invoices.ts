@@ -0,0 +1,12 @@
+export function summarizeInvoices(invoices: { amount: number; units: number }[]): string {
+  let sum = 0;
+  let items = 0;
+  for (const invoice of invoices) {
+    if (invoice.units > 0) {
+      sum += invoice.amount * invoice.units;
+      items += 1;
+    }
+  }
+  const mean = items === 0 ? 0 : sum / items;
+  return `total=${sum.toFixed(2)} count=${items} average=${mean.toFixed(2)}`;
+}
@@ -0,0 +1,12 @@
+export function summarizeOrders(orders: { price: number; quantity: number }[]): string {
+  let total = 0;
+  let count = 0;
+  for (const order of orders) {
+    if (order.quantity > 0) {
+      total += order.price * order.quantity;
+      count += 1;
+    }
+  }
+  const average = count === 0 ? 0 : total / count;
+  return `total=${total.toFixed(2)} count=${count} average=${average.toFixed(2)}`;
+}
@@ -0,0 +1,28 @@
+/**
+ * Formats a user for display
+ */
+export function format(name: string): string {
+  return name.trim();
+}
+
+export class Service {
+  /**
+   * Starts the service
+   */
+  start(): void {
+    const handler = () => {
+      console.log('started');
+    };
+    handler();
+  }
+
+  format(value: number): string {
+    return value.toFixed(2);
+  }
+}
+
+export namespace Helpers {
+  export function format(flag: boolean): string {
+    return flag ? 'yes' : 'no';
+  }
+}
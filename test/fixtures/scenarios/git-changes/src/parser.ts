@@ -0,0 +1,7 @@
+export function parseFlag(value: string): boolean {
+  return value === 'true';
+}
+
+export function parseList(value: string): string[] {
+  return value.split(',');
+}
@@ -0,0 +1,3 @@
+export function stale() {
+  return 0;
+}
@@ -0,0 +1,10 @@
+export function route(path: string): string {
+  if (path === '/') {
+    return 'home';
+  }
+  return 'missing';
+}
+
+export function normalize(path: string): string {
+  return path.toLowerCase();
+}
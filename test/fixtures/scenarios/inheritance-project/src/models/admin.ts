@@ -0,0 +1,15 @@
+import { User } from './user';
+import type { Identified } from '../shared/entity';
+
+export interface Auditable extends Identified {
+  audit(): string[];
+}
+
+export class Admin extends User implements Auditable {
+  audit() {
+    return [this.id];
+  }
+}
+
+// Extends a class from outside the project
+export class AppError extends Error {}
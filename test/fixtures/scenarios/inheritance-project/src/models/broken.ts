@@ -0,0 +1,2 @@
+import { Admin } from "./admin";
+export class Broken extends Admin {
@@ -0,0 +1,7 @@
+import { Entity } from '@shared/entity';
+
+export class User extends Entity {
+  constructor(id: string, public readonly name: string) {
+    super(id);
+  }
+}
@@ -0,0 +1,7 @@
+export interface Identified {
+  id: string;
+}
+
+export abstract class Entity implements Identified {
+  constructor(public readonly id: string) {}
+}
@@ -0,0 +1,3 @@
+export default function load(env) {
+  return env.MODE ?? 'development';
+}
@@ -0,0 +1,6 @@
+export function List({ items }) {
+  if (items.length === 0) {
+    return <p>Empty</p>;
+  }
+  return <ul>{items.map(item => <li key={item}>{item}</li>)}</ul>;
+}
@@ -0,0 +1,17 @@
+export function total(values: number[]): number {
+  let sum = 0;
+  for (const value of values) {
+    if (value > 0) {
+      sum += value;
+    }
+  }
+  return sum;
+}
+
+export function broken(: number {
+  return 1;
+}
+
+export function average(values: number[]): number {
+  return values.length === 0 ? 0 : total(values) / values.length;
+}
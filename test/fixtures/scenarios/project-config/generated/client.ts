@@ -0,0 +1,3 @@
+export function generated(a: number, b: number, c: number): number {
+  return a > 0 ? (b > 0 ? (c > 0 ? 1 : 2) : 3) : b > 0 ? 4 : 5;
+}
@@ -0,0 +1,10 @@
+export function check(value: number): string {
+  if (value > 10) {
+    return 'high';
+  } else if (value > 5) {
+    return 'medium';
+  } else if (value > 0) {
+    return 'low';
+  }
+  return 'none';
+}
@@ -0,0 +1,7 @@
+export function classify(char: string): string {
+  if (char === ' ') return 'space';
+  if (char === '\n') return 'newline';
+  if (/[0-9]/.test(char)) return 'digit';
+  if (/[a-z]/i.test(char)) return 'letter';
+  return 'symbol';
+}
@@ -0,0 +1,11 @@
+export function parse(token: string): number {
+  switch (token) {
+    case 'one': return 1;
+    case 'two': return 2;
+    case 'three': return 3;
+    case 'four': return 4;
+    case 'five': return 5;
+    case 'six': return 6;
+    default: return 0;
+  }
+}
@@ -0,0 +1,4 @@
+export function build(steps: string[]): string {
+  const names = steps.map(step => step.trim());
+  return names.join(' && ');
+}
@@ -0,0 +1,3 @@
+const thresholds = { max_lloc: 1 };
+
+export default { thresholds, format: 'table' };
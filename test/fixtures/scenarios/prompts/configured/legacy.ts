@@ -0,0 +1,6 @@
+export function parseFlag(value: string): boolean {
+  if (value === 'yes' || value === 'true') {
+    return true;
+  }
+  return false;
+}
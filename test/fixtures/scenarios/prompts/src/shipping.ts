@@ -0,0 +1,33 @@
+export interface Parcel {
+  weight: number;
+  country: string;
+  express: boolean;
+  fragile: boolean;
+}
+
+export function quote(parcel: Parcel): number {
+  let price = 5;
+  if (parcel.weight > 20) {
+    price += 30;
+  } else if (parcel.weight > 10) {
+    price += 15;
+  } else if (parcel.weight > 2) {
+    price += 5;
+  }
+  if (parcel.country !== 'NL') {
+    price += parcel.country === 'BE' || parcel.country === 'DE' ? 7 : 20;
+  }
+  if (parcel.express) {
+    price *= parcel.weight > 10 ? 1.8 : 1.5;
+  }
+  if (parcel.fragile && parcel.weight > 5) {
+    price += 12;
+  } else if (parcel.fragile) {
+    price += 6;
+  }
+  return Math.round(price * 100) / 100;
+}
+
+export function label(parcel: Parcel): string {
+  return `${parcel.country}-${parcel.weight}kg`;
+}
@@ -0,0 +1,14 @@
+export class ListView {
+  render(items: string[]): string {
+    return items.map(item => `- ${item}`).join('\n');
+  }
+}
+
+export class TableView {
+  render(rows: string[][]): string {
+    if (rows.length === 0) {
+      return '(empty)';
+    }
+    return rows.map(row => row.join(' | ')).join('\n');
+  }
+}
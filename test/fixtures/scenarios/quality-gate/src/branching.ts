@@ -0,0 +1,17 @@
+export function classify(value: number, mode: string): string {
+  if (value < 0) {
+    return 'negative';
+  } else if (value === 0) {
+    return 'zero';
+  } else if (value < 10 && mode === 'strict') {
+    return 'small';
+  } else if (value < 100 || mode === 'loose') {
+    return 'medium';
+  }
+  for (let i = 0; i < value; i++) {
+    if (i % 7 === 0 && i > 50) {
+      return 'divisible';
+    }
+  }
+  return value > 1000 ? 'huge' : 'large';
+}
@@ -0,0 +1,5 @@
+interface A { a(): void }
+interface B extends A { b(): void }
+interface C extends B { c(): void }
+class D implements C { a() {} b() {} c() {} }
+export class E extends D {}
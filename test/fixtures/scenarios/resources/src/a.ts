@@ -0,0 +1,3 @@
+export function total(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0);
+}
@@ -0,0 +1 @@
+export const label = (name: string) => name.trim();
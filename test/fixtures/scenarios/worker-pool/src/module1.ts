@@ -0,0 +1,9 @@
+export function compute1(values: number[]): number {
+  let result = 1;
+  for (const value of values) {
+    if (value % 1 === 0) {
+      result += value;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,9 @@
+export function compute2(values: number[]): number {
+  let result = 2;
+  for (const value of values) {
+    if (value % 2 === 0) {
+      result += value;
+    }
+  }
+  return result;
+}
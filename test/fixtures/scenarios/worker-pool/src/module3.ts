@@ -0,0 +1,9 @@
+export function compute3(values: number[]): number {
+  let result = 3;
+  for (const value of values) {
+    if (value % 3 === 0) {
+      result += value;
+    }
+  }
+  return result;
+}
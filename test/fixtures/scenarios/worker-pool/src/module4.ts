@@ -0,0 +1,9 @@
+export function compute4(values: number[]): number {
+  let result = 4;
+  for (const value of values) {
+    if (value % 4 === 0) {
+      result += value;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,9 @@
+export function compute5(values: number[]): number {
+  let result = 5;
+  for (const value of values) {
+    if (value % 5 === 0) {
+      result += value;
+    }
+  }
+  return result;
+}
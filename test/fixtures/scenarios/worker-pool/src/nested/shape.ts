@@ -0,0 +1,13 @@
+abstract class Shape {
+  abstract area(): number;
+}
+
+export class Square extends Shape {
+  constructor(private readonly side: number) {
+    super();
+  }
+
+  area(): number {
+    return this.side * this.side;
+  }
+}
@@ -0,0 +1,64 @@
+/* qualytics-disable inheritance -- generated class hierarchy */
+
+// qualytics-ignore-next-function -- hand-written tokenizer
+export function tokenize(input: string): string[] {
+  const tokens: string[] = [];
+  for (const ch of input) {
+    if (ch === ' ') {
+      continue;
+    } else if (ch === '(' || ch === ')') {
+      tokens.push(ch);
+    } else {
+      tokens.push(ch.toUpperCase());
+    }
+  }
+  return tokens;
+}
+
+export function step(state: string, event: string): string {
+  /* qualytics-disable complexity, lloc -- state machine */
+  switch (state) {
+    case 'idle':
+      return event === 'start' ? 'running' : state;
+    case 'running':
+      return event === 'stop' ? 'idle' : state;
+    default:
+      return state;
+  }
+}
+
+export class Parser {
+  // qualytics-ignore-next-function complexity
+  parse(input: string) {
+    const helper = (token: string) => {
+      // qualytics-disable maintainability
+      return token.length > 0 ? token : null;
+    };
+    return tokenize(input).map(helper);
+  }
+
+  // qualytics-disable cyclomatic -- unknown metric, ignored
+  reset() {
+    return [];
+  }
+}
+
+// qualytics-ignore-next-function
+export const last = (items: string[]) => items[items.length - 1];
+
+// qualytics-ignore-next-function lloc -- wrapped declaration
+export const fetchAll =
+  async (urls: string[]) => {
+    const results: string[] = [];
+    for (const url of urls) {
+      results.push(url);
+    }
+    return results;
+  };
+
+// qualytics-ignore-next-function -- holds no function, applies to nothing
+const LIMIT = 10;
+
+export function limit(items: string[]) {
+  return items.slice(0, LIMIT);
+}